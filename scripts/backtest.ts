@@ -0,0 +1,37 @@
+/**
+ * Runs the stability formula backtest from the command line.
+ *
+ * The input file has the same shape as the POST /api/admin/backtest body:
+ *   { "dataset": { "ticks": [...] }, "configs": [{ "name": "...", "config": {...} }] }
+ *
+ * Usage: npm run backtest -- <request.json> [--series]
+ */
+import { promises as fs } from "fs";
+import { fromZodError } from "zod-validation-error";
+import { ZodError } from "zod";
+import { backtestService, backtestRequestSchema } from "../server/services/backtest";
+
+async function main() {
+  const [path, ...flags] = process.argv.slice(2);
+  if (!path) {
+    console.error('Usage: backtest <request.json> [--series]');
+    process.exitCode = 1;
+    return;
+  }
+
+  const request = backtestRequestSchema.parse(JSON.parse(await fs.readFile(path, 'utf-8')));
+  const result = await backtestService.run(request);
+
+  if (flags.includes('--series')) {
+    console.log(JSON.stringify(result, null, 2));
+    return;
+  }
+
+  console.log(`Backtest over ${result.ticks} ticks (${result.from} to ${result.to})`);
+  console.table(result.runs.map(run => ({ name: run.name, ...run.metrics })));
+}
+
+main().catch(error => {
+  console.error('Backtest failed:', error instanceof ZodError ? fromZodError(error).message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,70 @@
+/**
+ * Backup and restore of all backend state from the command line.
+ *
+ * Usage:
+ *   npm run backup -- export [output.json]
+ *   npm run backup -- restore <archive.json> [--dry-run]
+ *
+ * Needs the database backend: the memory backend would only see an empty
+ * store. A restore also refuses to run while the API server is up, since the
+ * server would keep its own state; use POST /api/admin/restore instead.
+ */
+import { promises as fs } from "fs";
+import { initializeStorage, resolveStorageBackend } from "../server/storage";
+import { backupService } from "../server/services/backup";
+
+/**
+ * Whether an API server answers on the configured port
+ */
+async function isServerRunning(): Promise<boolean> {
+  const port = parseInt(process.env.PORT || '5010', 10);
+  try {
+    await fetch(`http://localhost:${port}/`, { signal: AbortSignal.timeout(2000) });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function main() {
+  const [command, path, ...flags] = process.argv.slice(2);
+
+  if (resolveStorageBackend() !== 'database') {
+    console.error('Backups need the database backend: set DATABASE_URL and leave STORAGE_BACKEND unset or set to database');
+    process.exitCode = 1;
+    return;
+  }
+  await initializeStorage();
+
+  if (command === 'export') {
+    const archive = await backupService.createArchive();
+    const output = path || `avgx-backup-${archive.created_at.replace(/[:.]/g, '-')}.json`;
+    await fs.writeFile(output, JSON.stringify(archive));
+    console.log(`Wrote backup ${output} (checksum ${archive.checksum})`);
+    return;
+  }
+
+  if (command === 'restore' && path) {
+    const dryRun = flags.includes('--dry-run');
+    if (!dryRun && await isServerRunning()) {
+      console.error('The API server is running; restore through POST /api/admin/restore or stop it first');
+      process.exitCode = 1;
+      return;
+    }
+
+    const archive = JSON.parse(await fs.readFile(path, 'utf-8'));
+    const report = await backupService.restore(archive, { dryRun });
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.error('Usage: backup export [output.json] | backup restore <archive.json> [--dry-run]');
+  process.exitCode = 1;
+}
+
+main()
+  .catch(error => {
+    console.error('Backup failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
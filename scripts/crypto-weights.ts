@@ -0,0 +1,39 @@
+/**
+ * Proposes crypto basket weights from trailing average market caps.
+ *
+ * The optional rules file has the same shape as the
+ * POST /api/admin/crypto-weights/proposal body. Market caps come from the
+ * configured storage backend unless the file provides "market_caps".
+ * The proposal is written to data/crypto_weights_proposal.json for review.
+ *
+ * Usage: npm run weights:crypto -- [rules.json]
+ */
+import { promises as fs } from "fs";
+import { fromZodError } from "zod-validation-error";
+import { ZodError } from "zod";
+import { initializeStorage } from "../server/storage";
+import { cryptoWeightingService, cryptoWeightingRequestSchema, CRYPTO_WEIGHTS_PROPOSAL_FILE } from "../server/services/crypto-weighting";
+
+async function main() {
+  const [path] = process.argv.slice(2);
+  const rules = path ? JSON.parse(await fs.readFile(path, 'utf-8')) : {};
+  const request = cryptoWeightingRequestSchema.parse(rules);
+
+  await initializeStorage();
+  const proposal = await cryptoWeightingService.propose(request);
+  await cryptoWeightingService.saveProposal(proposal);
+
+  console.log(`Market caps from ${proposal.window.from} to ${proposal.window.to}`);
+  console.table(proposal.assets.map(({ id, avg_market_cap, coverage, market_cap_share, weight, reason }) => ({
+    id, avg_market_cap, coverage, market_cap_share, weight, reason: reason ?? '',
+  })));
+  console.table(proposal.diff);
+  console.log(`Proposal written to data/${CRYPTO_WEIGHTS_PROPOSAL_FILE}`);
+}
+
+main()
+  .catch(error => {
+    console.error('Crypto weighting failed:', error instanceof ZodError ? fromZodError(error).message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
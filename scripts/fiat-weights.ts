@@ -0,0 +1,37 @@
+/**
+ * Proposes fiat basket weights from the CSV datasets in data/datasets.
+ *
+ * The request file has the same shape as the
+ * POST /api/admin/fiat-weights/preview body and names the datasets to use,
+ * e.g. { "components": [{ "dataset": "gdp.csv", "weight": 0.6 }, ...] }.
+ * The proposal is written to data/fiat_weights_proposal.json for review; use
+ * the admin endpoint to preview its WF and AVGX impact.
+ *
+ * Usage: npm run weights:fiat -- request.json
+ */
+import { promises as fs } from "fs";
+import { fromZodError } from "zod-validation-error";
+import { ZodError } from "zod";
+import { fiatWeightingService, fiatWeightingRequestSchema, FIAT_WEIGHTS_PROPOSAL_FILE } from "../server/services/fiat-weighting";
+
+async function main() {
+  const [path] = process.argv.slice(2);
+  if (!path) {
+    throw new Error('Usage: npm run weights:fiat -- request.json');
+  }
+  const request = fiatWeightingRequestSchema.parse(JSON.parse(await fs.readFile(path, 'utf-8')));
+
+  const proposal = await fiatWeightingService.propose(request);
+  await fiatWeightingService.saveProposal(proposal);
+
+  console.table(proposal.currencies.map(({ code, shares, score, weight }) => ({ code, ...shares, score, weight })));
+  console.table(proposal.diff);
+  console.log(`Proposal written to data/${FIAT_WEIGHTS_PROPOSAL_FILE}`);
+}
+
+main()
+  .catch(error => {
+    console.error('Fiat weighting failed:', error instanceof ZodError ? fromZodError(error).message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
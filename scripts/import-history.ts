@@ -0,0 +1,77 @@
+/**
+ * One-shot importer for the file-based AVGX history.
+ *
+ * Loads data/history.json and data/smoothed_history.json into the avgx_index
+ * table. Entries whose timestamp already exists in the table are skipped, so
+ * the script is safe to re-run.
+ *
+ * Usage: DATABASE_URL=... npm run db:import-history
+ */
+import { avgxIndex } from "@shared/schema";
+import { db, pool } from "../server/db";
+import { FileManager } from "../server/utils/file-manager";
+
+const BATCH_SIZE = 500;
+
+interface HistoryFileEntry {
+  timestamp: string;
+  avgx_usd: number;
+  wf_value: number;
+  wc_value: number;
+}
+
+interface SmoothedFileEntry {
+  timestamp: string;
+  avgx_usd: number;
+  wf_smoothed: number;
+  wc_adjusted: number;
+}
+
+type AvgxIndexRow = typeof avgxIndex.$inferInsert;
+
+function toRow(timestamp: string, value: number, wfValue: number, wcValue: number): AvgxIndexRow {
+  return {
+    timestamp: new Date(timestamp),
+    value: value.toString(),
+    wfValue: wfValue.toString(),
+    wcValue: wcValue.toString(),
+    change24h: null,
+  };
+}
+
+async function main() {
+  const [history, smoothedHistory] = await Promise.all([
+    FileManager.readJson<HistoryFileEntry[]>('history.json'),
+    FileManager.readJson<SmoothedFileEntry[]>('smoothed_history.json'),
+  ]);
+
+  const rows: AvgxIndexRow[] = [
+    ...(history || []).map(h => toRow(h.timestamp, h.avgx_usd, h.wf_value, h.wc_value)),
+    ...(smoothedHistory || []).map(s => toRow(s.timestamp, s.avgx_usd, s.wf_smoothed, s.wc_adjusted)),
+  ];
+
+  const existing = await db.select({ timestamp: avgxIndex.timestamp }).from(avgxIndex);
+  const seen = new Set(existing.map(e => e.timestamp.getTime()));
+
+  const pending = rows
+    .filter(row => {
+      const time = (row.timestamp as Date).getTime();
+      if (Number.isNaN(time) || seen.has(time)) return false;
+      seen.add(time);
+      return true;
+    })
+    .sort((a, b) => (a.timestamp as Date).getTime() - (b.timestamp as Date).getTime());
+
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    await db.insert(avgxIndex).values(pending.slice(i, i + BATCH_SIZE));
+  }
+
+  console.log(`Imported ${pending.length} of ${rows.length} history entries into avgx_index`);
+}
+
+main()
+  .catch(error => {
+    console.error('History import failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
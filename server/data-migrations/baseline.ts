@@ -0,0 +1,21 @@
+import type { DataMigration } from './types';
+
+export const baselineMigrations: DataMigration[] = [
+  {
+    file: 'baseline.json',
+    version: 1,
+    description: 'Add fiat_rates, crypto_prices and index value keys missing from older baselines',
+    up(baseline) {
+      const data = baseline && typeof baseline === 'object' && !Array.isArray(baseline) ? baseline : {};
+      return {
+        ...data,
+        timestamp: data.timestamp ?? new Date().toISOString(),
+        fiat_rates: data.fiat_rates ?? {},
+        crypto_prices: data.crypto_prices ?? {},
+        avgx_value: data.avgx_value ?? null,
+        wf_value: data.wf_value ?? null,
+        wc_value: data.wc_value ?? null,
+      };
+    },
+  },
+];
@@ -0,0 +1,35 @@
+import { BASKET_SCHEDULE_FILE } from '../services/basket-schedule';
+import type { DataMigration } from './types';
+
+function normalizeBasket(key: 'code' | 'id') {
+  return (basket: any) => {
+    if (!Array.isArray(basket)) return [];
+
+    return basket
+      .filter(entry => entry && typeof entry[key] === 'string' && Number.isFinite(Number(entry.weight)))
+      .map(entry => ({ ...entry, weight: Number(entry.weight) }));
+  };
+}
+
+export const basketConfigMigrations: DataMigration[] = [
+  {
+    file: 'fiats.json',
+    version: 1,
+    description: 'Coerce fiat weights to numbers and drop entries without a currency code',
+    up: normalizeBasket('code'),
+  },
+  {
+    file: 'cryptos.json',
+    version: 1,
+    description: 'Coerce crypto weights to numbers and drop entries without a CoinGecko id',
+    up: normalizeBasket('id'),
+  },
+  {
+    file: BASKET_SCHEDULE_FILE,
+    version: 1,
+    description: 'Initial effective-dated basket schedule',
+    up(versions) {
+      return Array.isArray(versions) ? versions : [];
+    },
+  },
+];
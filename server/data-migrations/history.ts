@@ -0,0 +1,20 @@
+import { HISTORY_TIERS } from '../services/history-retention';
+import type { DataMigration } from './types';
+
+function isValidEntry(entry: any): boolean {
+  return entry
+    && !Number.isNaN(new Date(entry.timestamp).getTime())
+    && Number.isFinite(entry.avgx_usd)
+    && Number.isFinite(entry.wf_value)
+    && Number.isFinite(entry.wc_value);
+}
+
+// The raw history file and every rollup tier share the HistoryEntry shape
+export const historyMigrations: DataMigration[] = HISTORY_TIERS.map(tier => ({
+  file: tier.file,
+  version: 1,
+  description: 'Drop history entries without a valid timestamp or numeric index values',
+  up(history: any) {
+    return Array.isArray(history) ? history.filter(isValidEntry) : [];
+  },
+}));
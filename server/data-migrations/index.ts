@@ -0,0 +1,91 @@
+import { FileManager } from '../utils/file-manager';
+import { baselineMigrations } from './baseline';
+import { basketConfigMigrations } from './basket-config';
+import { historyMigrations } from './history';
+import { smoothedHistoryMigrations } from './smoothed-history';
+import { stabilityConfigMigrations } from './stability-config';
+import { DataMigrationError, type DataMigration } from './types';
+
+export { DataMigrationError, type DataMigration } from './types';
+
+// Before versions were stamped in each file they were kept here; read once to carry them over
+export const LEGACY_SCHEMA_VERSIONS_FILE = 'schema_versions.json';
+
+export type SchemaVersions = Record<string, number>;
+
+const MIGRATIONS: DataMigration[] = [
+  ...baselineMigrations,
+  ...historyMigrations,
+  ...smoothedHistoryMigrations,
+  ...basketConfigMigrations,
+  ...stabilityConfigMigrations,
+];
+
+/**
+ * Latest schema version this build knows for every migrated data file
+ */
+export function getLatestVersions(): SchemaVersions {
+  return MIGRATIONS.reduce((acc, migration) => {
+    acc[migration.file] = Math.max(acc[migration.file] || 0, migration.version);
+    return acc;
+  }, {} as SchemaVersions);
+}
+
+/**
+ * Brings every data file up to the latest schema version. Each file carries
+ * its version in a stamp, so a file copied or restored on its own keeps it.
+ * Files stamped with a version newer than this build knows abort startup
+ * instead of being read with the wrong shape.
+ */
+export async function runDataMigrations(): Promise<SchemaVersions> {
+  const latest = getLatestVersions();
+  const legacy = await FileManager.exists(LEGACY_SCHEMA_VERSIONS_FILE)
+    ? await FileManager.readJson<SchemaVersions>(LEGACY_SCHEMA_VERSIONS_FILE) || {}
+    : {};
+  const versions: SchemaVersions = {};
+
+  // From here on every write of a migrated file is stamped with its latest version
+  FileManager.registerSchemaVersions(latest);
+
+  for (const [file, latestVersion] of Object.entries(latest)) {
+    // A file that does not exist yet will be created in the current shape
+    if (!(await FileManager.exists(file))) {
+      versions[file] = latestVersion;
+      continue;
+    }
+
+    const stamped = await FileManager.readSchemaVersion(file);
+    const current = stamped ?? legacy[file] ?? 0;
+
+    if (current > latestVersion) {
+      throw new DataMigrationError(
+        `${file} is at schema version ${current} but this build only supports up to ${latestVersion}`
+      );
+    }
+
+    const pending = MIGRATIONS
+      .filter(m => m.file === file && m.version > current)
+      .sort((a, b) => a.version - b.version);
+
+    for (const migration of pending) {
+      await FileManager.update<any>(file, data => {
+        if (data === null) {
+          throw new DataMigrationError(`${file} disappeared while it was being migrated`);
+        }
+        return migration.up(data);
+      }, { schemaVersion: migration.version });
+      console.log(`Migrated ${file} to schema version ${migration.version}: ${migration.description}`);
+    }
+
+    // Files that were current under the legacy versions file only need the stamp
+    if (pending.length === 0 && stamped === undefined) {
+      await FileManager.update<any>(file, data => data ?? undefined, { schemaVersion: current });
+    }
+    versions[file] = latestVersion;
+  }
+
+  if (await FileManager.exists(LEGACY_SCHEMA_VERSIONS_FILE)) {
+    await FileManager.writeMany([], [LEGACY_SCHEMA_VERSIONS_FILE]);
+  }
+  return versions;
+}
@@ -0,0 +1,23 @@
+import type { DataMigration } from './types';
+
+export const smoothedHistoryMigrations: DataMigration[] = [
+  {
+    file: 'smoothed_history.json',
+    version: 1,
+    description: 'Drop malformed EWMA entries and fill volatility fields missing from early writes',
+    up(history) {
+      if (!Array.isArray(history)) return [];
+
+      return history
+        .filter(entry => entry
+          && !Number.isNaN(new Date(entry.timestamp).getTime())
+          && Number.isFinite(entry.wf_smoothed)
+          && Number.isFinite(entry.wc_smoothed))
+        .map(entry => ({
+          ...entry,
+          volatility_index: entry.volatility_index ?? 0,
+          wc_adjusted: entry.wc_adjusted ?? entry.wc_smoothed,
+        }));
+    },
+  },
+];
@@ -0,0 +1,56 @@
+import { DEFAULT_STABILITY_CONFIG, STABILITY_CONFIG_FILE } from '../services/stability-config';
+import type { DataMigration } from './types';
+
+export const stabilityConfigMigrations: DataMigration[] = [
+  {
+    file: STABILITY_CONFIG_FILE,
+    version: 1,
+    description: 'Initial versioned StabilityConfig history',
+    up(versions) {
+      return Array.isArray(versions) ? versions : [];
+    },
+  },
+  {
+    file: STABILITY_CONFIG_FILE,
+    version: 2,
+    description: 'Add alpha_interval_seconds for time-aware smoothing',
+    up(versions) {
+      // Earlier versions applied alpha once per computation, i.e. once per tick
+      return versions.map((v: any) => ({
+        ...v,
+        config: { alpha_interval_seconds: DEFAULT_STABILITY_CONFIG.alpha_interval_seconds, ...v.config },
+      }));
+    },
+  },
+  {
+    file: STABILITY_CONFIG_FILE,
+    version: 3,
+    description: 'Replace the sample-count volatility_window with volatility_window_seconds',
+    up(versions) {
+      // Windows were counted in ticks of the default one-minute schedule
+      return versions.map((v: any) => {
+        const { volatility_window, ...config } = v.config;
+        return {
+          ...v,
+          config: {
+            ...config,
+            volatility_window_seconds: config.volatility_window_seconds
+              ?? (volatility_window ? volatility_window * 60 : DEFAULT_STABILITY_CONFIG.volatility_window_seconds),
+          },
+        };
+      });
+    },
+  },
+  {
+    file: STABILITY_CONFIG_FILE,
+    version: 4,
+    description: 'Move alpha_interval_seconds off the old one-day default to the one-minute tick interval',
+    up(versions) {
+      // Version 2 filled in one day, which made smoothing about 1440 times slower than before it
+      const OLD_DEFAULT_SECONDS = 24 * 60 * 60;
+      return versions.map((v: any) => v.config.alpha_interval_seconds === OLD_DEFAULT_SECONDS
+        ? { ...v, config: { ...v.config, alpha_interval_seconds: DEFAULT_STABILITY_CONFIG.alpha_interval_seconds } }
+        : v);
+    },
+  },
+];
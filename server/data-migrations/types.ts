@@ -0,0 +1,14 @@
+export interface DataMigration {
+  file: string;        // Data file the migration applies to, relative to data/
+  version: number;     // Schema version the file is at after this migration
+  description: string;
+  // Must be idempotent: a file that predates version stamps is migrated again from version 0
+  up(data: any): any;
+}
+
+export class DataMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DataMigrationError';
+  }
+}
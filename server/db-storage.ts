@@ -0,0 +1,199 @@
+import { asc, desc, eq, gte, lte } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { users, contacts, avgxIndex, fiatRates, cryptoPrices, avgxCoinTransactions, avgxReserves, type User, type InsertUser, type Contact, type InsertContact, type AvgxIndex, type FiatRate, type CryptoPrice, type AvgxTransaction, type InsertTransaction, type AvgxReserves, type InsertReserves } from "@shared/schema";
+import { db, pool } from "./db";
+import type { IStorage, StorageDump, StorageHealth } from "./storage";
+
+const IMPORT_BATCH_SIZE = 500;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Empties a table and inserts the rows in batches
+ */
+async function replaceRows<T extends PgTable>(tx: Transaction, table: T, rows: T['$inferInsert'][]): Promise<void> {
+  await tx.delete(table);
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    await tx.insert(table).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+  }
+}
+
+// Postgres-backed storage using the Drizzle tables from shared/schema.ts
+export class DbStorage implements IStorage {
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // Contact operations
+  async createContact(insertContact: InsertContact): Promise<Contact> {
+    const [contact] = await db.insert(contacts).values(insertContact).returning();
+    return contact;
+  }
+
+  async getAllContacts(): Promise<Contact[]> {
+    return db.select().from(contacts).orderBy(desc(contacts.createdAt));
+  }
+
+  // AVGX index operations
+  async storeAvgxIndex(indexData: Omit<AvgxIndex, 'id'>): Promise<AvgxIndex> {
+    const [index] = await db.insert(avgxIndex).values(indexData).returning();
+    return index;
+  }
+
+  async getAvgxIndex(id: string): Promise<AvgxIndex | undefined> {
+    const [index] = await db.select().from(avgxIndex).where(eq(avgxIndex.id, id));
+    return index;
+  }
+
+  async getLatestAvgxIndex(): Promise<AvgxIndex | undefined> {
+    const [index] = await db.select().from(avgxIndex)
+      .orderBy(desc(avgxIndex.timestamp))
+      .limit(1);
+    return index;
+  }
+
+  async getAvgxIndexHistory(limit: number = 100): Promise<AvgxIndex[]> {
+    return db.select().from(avgxIndex)
+      .orderBy(desc(avgxIndex.timestamp))
+      .limit(limit);
+  }
+
+  async getAvgxIndexByCalculationHash(hash: string): Promise<AvgxIndex | undefined> {
+    const [index] = await db.select().from(avgxIndex).where(eq(avgxIndex.calculationHash, hash)).limit(1);
+    return index;
+  }
+
+  async getAvgxIndexAt(at: Date): Promise<AvgxIndex | undefined> {
+    const [index] = await db.select().from(avgxIndex)
+      .where(lte(avgxIndex.timestamp, at))
+      .orderBy(desc(avgxIndex.timestamp))
+      .limit(1);
+    return index;
+  }
+
+  // Fiat rate operations
+  async storeFiatRates(rates: Omit<FiatRate, 'id'>[]): Promise<FiatRate[]> {
+    if (rates.length === 0) return [];
+    return db.insert(fiatRates).values(rates).returning();
+  }
+
+  async getLatestFiatRates(): Promise<FiatRate[]> {
+    // One row per currency, the most recent one
+    return db.selectDistinctOn([fiatRates.currency]).from(fiatRates)
+      .orderBy(fiatRates.currency, desc(fiatRates.timestamp));
+  }
+
+  async getFiatRatesBySnapshot(snapshotId: string): Promise<FiatRate[]> {
+    return db.select().from(fiatRates).where(eq(fiatRates.snapshotId, snapshotId));
+  }
+
+  // Crypto price operations
+  async storeCryptoPrices(prices: Omit<CryptoPrice, 'id'>[]): Promise<CryptoPrice[]> {
+    if (prices.length === 0) return [];
+    return db.insert(cryptoPrices).values(prices).returning();
+  }
+
+  async getLatestCryptoPrices(): Promise<CryptoPrice[]> {
+    // One row per symbol, the most recent one
+    return db.selectDistinctOn([cryptoPrices.symbol]).from(cryptoPrices)
+      .orderBy(cryptoPrices.symbol, desc(cryptoPrices.timestamp));
+  }
+
+  async getCryptoPricesBySnapshot(snapshotId: string): Promise<CryptoPrice[]> {
+    return db.select().from(cryptoPrices).where(eq(cryptoPrices.snapshotId, snapshotId));
+  }
+
+  async getCryptoPricesSince(since: Date): Promise<CryptoPrice[]> {
+    return db.select().from(cryptoPrices)
+      .where(gte(cryptoPrices.timestamp, since))
+      .orderBy(asc(cryptoPrices.timestamp));
+  }
+
+  // AVGX Coin transaction operations
+  async createTransaction(insertTransaction: InsertTransaction): Promise<AvgxTransaction> {
+    const [transaction] = await db.insert(avgxCoinTransactions).values(insertTransaction).returning();
+    return transaction;
+  }
+
+  async getTransactionHistory(walletAddress: string, limit: number = 50): Promise<AvgxTransaction[]> {
+    return db.select().from(avgxCoinTransactions)
+      .where(eq(avgxCoinTransactions.walletAddress, walletAddress))
+      .orderBy(desc(avgxCoinTransactions.timestamp))
+      .limit(limit);
+  }
+
+  async getAllTransactions(): Promise<AvgxTransaction[]> {
+    return db.select().from(avgxCoinTransactions)
+      .orderBy(desc(avgxCoinTransactions.timestamp));
+  }
+
+  // AVGX reserves operations
+  async updateReserves(insertReserves: InsertReserves): Promise<AvgxReserves> {
+    const [reserves] = await db.insert(avgxReserves).values(insertReserves).returning();
+    return reserves;
+  }
+
+  async getLatestReserves(): Promise<AvgxReserves | undefined> {
+    const [reserves] = await db.select().from(avgxReserves)
+      .orderBy(desc(avgxReserves.timestamp))
+      .limit(1);
+    return reserves;
+  }
+
+  // Backup operations
+  async exportAll(): Promise<StorageDump> {
+    const [userRows, contactRows, indexRows, fiatRows, cryptoRows, transactionRows, reserveRows] = await Promise.all([
+      db.select().from(users),
+      db.select().from(contacts),
+      db.select().from(avgxIndex),
+      db.select().from(fiatRates),
+      db.select().from(cryptoPrices),
+      db.select().from(avgxCoinTransactions),
+      db.select().from(avgxReserves),
+    ]);
+
+    return {
+      users: userRows,
+      contacts: contactRows,
+      avgxIndex: indexRows,
+      fiatRates: fiatRows,
+      cryptoPrices: cryptoRows,
+      transactions: transactionRows,
+      reserves: reserveRows,
+    };
+  }
+
+  async importAll(dump: StorageDump): Promise<void> {
+    // Replace every table in one transaction so a failed restore leaves the old data intact
+    await db.transaction(async (tx) => {
+      await replaceRows(tx, users, dump.users);
+      await replaceRows(tx, contacts, dump.contacts);
+      await replaceRows(tx, avgxIndex, dump.avgxIndex);
+      await replaceRows(tx, fiatRates, dump.fiatRates);
+      await replaceRows(tx, cryptoPrices, dump.cryptoPrices);
+      await replaceRows(tx, avgxCoinTransactions, dump.transactions);
+      await replaceRows(tx, avgxReserves, dump.reserves);
+    });
+  }
+
+  // Health check
+  async healthCheck(): Promise<StorageHealth> {
+    const result = await pool.query('SELECT NOW()');
+    return {
+      backend: 'database',
+      time: new Date(result.rows[0].now),
+    };
+  }
+}
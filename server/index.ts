@@ -1,5 +1,9 @@
 import express, { type Request, Response, NextFunction } from "express";
-import { registerRoutes } from "./routes";
+import { registerRoutes, ADMIN_RESTORE_PATH } from "./routes";
+import { initializeStorage } from "./storage";
+import { FileManager } from "./utils/file-manager";
+import { runDataMigrations } from "./data-migrations";
+import { indexScheduler } from "./services/index-scheduler";
 
 const app = express();
 
@@ -32,7 +36,9 @@ app.use((req, res, next) => {
   }
 });
 
-app.use(express.json());
+// Backup restores are parsed by their own route with a larger limit, after the admin check
+const jsonParser = express.json();
+app.use((req, res, next) => req.path === ADMIN_RESTORE_PATH ? next() : jsonParser(req, res, next));
 app.use(express.urlencoded({ extended: false }));
 
 // Request logging middleware
@@ -67,6 +73,9 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await FileManager.recoverJournal();
+  await runDataMigrations();
+  await initializeStorage();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -86,4 +95,6 @@ app.use((req, res, next) => {
     console.log(`��� API endpoints available at http://localhost:${port}/api`);
     console.log(`��� CORS enabled for development`);
   });
+
+  await indexScheduler.start();
 })();
@@ -1,31 +1,55 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { insertContactSchema } from "@shared/schema";
 import { cryptoApiService } from "./services/crypto-api";
 import { fiatApiService } from "./services/fiat-api";
-import { avgxCalculatorService } from "./services/avgx-calculator";
+import { avgxCalculatorService, type HistoryTimeframe } from "./services/avgx-calculator";
+import { listMethodologies } from "./services/index-methodology";
+import { verifyCalculationRecord } from "./services/calculation-record";
+import { indexScheduler } from "./services/index-scheduler";
 import { avgxCoinService } from "./services/avgx-coin";
 import { FileManager } from "./utils/file-manager";
 import { insertTransactionSchema } from "@shared/schema";
+import { backupService, BackupError } from "./services/backup";
+import { requireAdmin } from "./utils/admin-auth";
+import { stabilityConfigService, stabilityConfigUpdateSchema, StabilityConfigError } from "./services/stability-config";
+import { backtestService, backtestRequestSchema, BacktestError } from "./services/backtest";
+import { cryptoWeightingService, cryptoWeightingRequestSchema, CryptoWeightingError } from "./services/crypto-weighting";
+import { fiatWeightingService, fiatWeightingRequestSchema, FiatWeightingError } from "./services/fiat-weighting";
+import { WeightBoundsError } from "./services/basket-weights";
+import { basketScheduleService, basketProposalSchema, basketReviewSchema, BasketScheduleError } from "./services/basket-schedule";
+import { subIndexService } from "./services/sub-indices";
+import { IndexNotPublishedError } from "./services/basket-index";
+import { customIndexService, customIndexSchema, CustomIndexError } from "./services/custom-indices";
+import { scenarioService, scenarioRequestSchema, ScenarioError } from "./services/scenario";
+import { attributionService, attributionQuerySchema, AttributionError } from "./services/attribution";
+import { priceGuardService, priceGuardConfigSchema } from "./services/price-guard";
+import { cryptoPriceConsensusService } from "./services/crypto-price-consensus";
+import { fxRateConsensusService } from "./services/fx-rate-consensus";
+import { publicationStateService, freezeRequestSchema, IndexUnavailableError } from "./services/publication-state";
+import { fromZodError } from "zod-validation-error";
+import { ZodError } from "zod";
+
+// Backup archives exceed the default body limit, so this route parses its own body
+export const ADMIN_RESTORE_PATH = "/api/admin/restore";
 
 export async function registerRoutes(app: Express): Promise<Server> {
    // API to keep the DB active
   app.get('/', async (req, res) => {
     try {
-      const client = await pool.connect();
-      const result = await client.query('SELECT NOW()'); // Simple query to check connection
-      client.release(); // Release the client back to the pool
+      const health = await storage.healthCheck();
   
       res.status(200).json({
-        message: 'Successfully connected to the database and fetched data!',
-        databaseTime: result.rows[0].now,
+        message: `Successfully connected to the ${health.backend} storage backend!`,
+        backend: health.backend,
+        databaseTime: health.time,
       });
     } catch (err: any) {
-      console.error('Database connection or query error:', err);
+      console.error('Storage health check error:', err);
       res.status(500).json({
         success: false,
-        message: 'Failed to connect to the database.',
+        message: 'Failed to connect to the storage backend.',
         error: err.message,
       });
     }
@@ -41,9 +65,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         wc_value: breakdown.avgx.wc_value,
         change24h: breakdown.avgx.change24h,
         timestamp: breakdown.avgx.timestamp,
+        index_id: breakdown.avgx.index_id,
+        methodology: breakdown.avgx.methodology,
+        statistics: breakdown.avgx.statistics,
+        calculation_hash: breakdown.avgx.calculation_hash,
+        publication: breakdown.avgx.publication,
+        snapshots: {
+          fiat: breakdown.avgx.fiat_snapshot_id,
+          crypto: breakdown.avgx.crypto_snapshot_id
+        },
         breakdown: {
           fiat_basket: breakdown.fiatBasket,
-          crypto_basket: breakdown.cryptoBasket
+          crypto_basket: breakdown.cryptoBasket,
+          divisors: breakdown.divisors,
+          divisor_adjustments: breakdown.divisorAdjustments
         }
       });
     } catch (error: any) {
@@ -55,14 +90,96 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Registered index methodologies and the one currently selected
+  app.get("/api/avgx/methodologies", (req, res) => {
+    const active = avgxCalculatorService.getMethodologyInfo();
+    res.json({
+      active,
+      methodologies: listMethodologies().map(m => ({
+        id: m.id,
+        version: m.version,
+        description: m.description,
+        apply_clamp: m.applyClamp,
+        active: m.id === active.id
+      }))
+    });
+  });
+
+  // Stress test - the latest calculation replayed with shocked prices and volatility, nothing is stored
+  app.post("/api/avgx/scenario", async (req, res) => {
+    try {
+      const request = scenarioRequestSchema.parse(req.body ?? {});
+      const scenario = await scenarioService.run(request);
+      res.json({ success: true, ...scenario, publication: publicationStateService.getStatus() });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof ScenarioError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Scenario API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to run scenario"
+      });
+    }
+  });
+
+  // Return attribution - which constituents and stability effects moved AVGX between two times
+  app.get("/api/avgx/attribution", async (req, res) => {
+    try {
+      const query = attributionQuerySchema.parse(req.query);
+      const attribution = await attributionService.attribute(query);
+      res.json({ success: true, ...attribution });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof AttributionError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Attribution API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to attribute AVGX change"
+      });
+    }
+  });
+
+  // Calculation record behind a published value, replayed to check it is reproducible
+  app.get("/api/avgx/calculations/:hash", async (req, res) => {
+    try {
+      const record = await avgxCalculatorService.getCalculationRecord(req.params.hash);
+      if (!record) {
+        return res.status(404).json({
+          success: false,
+          message: "Calculation record not found"
+        });
+      }
+
+      res.json({
+        success: true,
+        data: record,
+        verification: verifyCalculationRecord(record)
+      });
+    } catch (error: any) {
+      console.error("Calculation record API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get calculation record"
+      });
+    }
+  });
+
   // Prices endpoint - AVGX converted to all fiats & crypto units
   app.get("/api/prices", async (req, res) => {
     try {
-      const [fiatPrices, avgxData, cryptoData] = await Promise.all([
+      const [fiatPrices, breakdown] = await Promise.all([
         avgxCalculatorService.convertToAllCurrencies(),
-        avgxCalculatorService.getCurrentAvgx(),
-        cryptoApiService.getCryptoPricesWithWeights()
+        avgxCalculatorService.getDetailedBreakdown()
       ]);
+      const { avgx: avgxData, cryptoBasket: cryptoData } = breakdown;
 
       const cryptoPrices = cryptoData.map(crypto => ({
         symbol: crypto.symbol,
@@ -75,7 +192,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         avgx_usd: avgxData.avgx_usd,
         fiat_conversions: fiatPrices,
         crypto_conversions: cryptoPrices,
-        timestamp: avgxData.timestamp
+        timestamp: avgxData.timestamp,
+        publication: avgxData.publication
       });
     } catch (error: any) {
       console.error("Prices API error:", error);
@@ -90,20 +208,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/history", async (req, res) => {
     try {
       const timeframe = (req.query.timeframe as string) || '24h';
-      const validTimeframes = ['24h', '7d', '30d'];
+      const validTimeframes = ['24h', '7d', '30d', '90d', '1y', '5y'];
 
       if (!validTimeframes.includes(timeframe)) {
         return res.status(400).json({
           success: false,
-          message: "Invalid timeframe. Use: 24h, 7d, 30d"
+          message: "Invalid timeframe. Use: 24h, 7d, 30d, 90d, 1y, 5y"
         });
       }
 
-      const history = await avgxCalculatorService.getHistoricalData(timeframe as any);
+      const history = await avgxCalculatorService.getHistoricalData(timeframe as HistoryTimeframe);
       res.json({
         timeframe,
         data: history,
-        count: history.length
+        count: history.length,
+        publication: publicationStateService.getStatus()
       });
     } catch (error: any) {
       console.error("History API error:", error);
@@ -114,6 +233,217 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Sub-indices published alongside AVGX: the WF and WC legs and regional fiat baskets
+  app.get("/api/indices", async (req, res) => {
+    try {
+      const indices = await subIndexService.list();
+      res.json({
+        success: true,
+        data: indices.map(({ id, name, description, value, timestamp, calculation_hash }) => ({
+          id, name, description, value, timestamp, calculation_hash
+        })),
+        publication: publicationStateService.getStatus()
+      });
+    } catch (error: any) {
+      console.error("Indices API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list indices"
+      });
+    }
+  });
+
+  app.get("/api/indices/:id", async (req, res) => {
+    try {
+      const index = await subIndexService.get(req.params.id);
+      if (!index) {
+        return res.status(404).json({
+          success: false,
+          message: "Index not found"
+        });
+      }
+      res.json({ success: true, data: index, publication: publicationStateService.getStatus() });
+    } catch (error: any) {
+      if (error instanceof IndexNotPublishedError) {
+        return res.status(404).json({
+          success: false,
+          message: error.message,
+          publication: publicationStateService.getStatus()
+        });
+      }
+      console.error("Index API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get index"
+      });
+    }
+  });
+
+  app.get("/api/indices/:id/history", async (req, res) => {
+    try {
+      const timeframe = (req.query.timeframe as string) || '24h';
+      const validTimeframes = ['24h', '7d', '30d', '90d', '1y', '5y'];
+
+      if (!validTimeframes.includes(timeframe)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid timeframe. Use: 24h, 7d, 30d, 90d, 1y, 5y"
+        });
+      }
+
+      const history = await subIndexService.getHistory(req.params.id, timeframe as HistoryTimeframe);
+      if (!history) {
+        return res.status(404).json({
+          success: false,
+          message: "Index not found"
+        });
+      }
+      res.json({
+        id: req.params.id.toUpperCase(),
+        timeframe,
+        data: history,
+        count: history.length,
+        publication: publicationStateService.getStatus()
+      });
+    } catch (error: any) {
+      console.error("Index history API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch index history"
+      });
+    }
+  });
+
+  // Custom basket indices, computed with the AVGX pipeline but isolated from it
+  app.get("/api/custom-indices", async (req, res) => {
+    try {
+      const definitions = await customIndexService.getDefinitions();
+      res.json({ success: true, data: definitions });
+    } catch (error: any) {
+      console.error("Custom indices API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to list custom indices"
+      });
+    }
+  });
+
+  app.get("/api/custom-indices/:id", async (req, res) => {
+    try {
+      const index = await customIndexService.get(req.params.id);
+      if (!index) {
+        return res.status(404).json({
+          success: false,
+          message: "Index not found"
+        });
+      }
+      res.json({ success: true, data: index, publication: publicationStateService.getStatus() });
+    } catch (error: any) {
+      if (error instanceof IndexNotPublishedError) {
+        return res.status(404).json({
+          success: false,
+          message: error.message,
+          publication: publicationStateService.getStatus()
+        });
+      }
+      console.error("Custom index API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get custom index"
+      });
+    }
+  });
+
+  app.get("/api/custom-indices/:id/history", async (req, res) => {
+    try {
+      const timeframe = (req.query.timeframe as string) || '24h';
+      const validTimeframes = ['24h', '7d', '30d', '90d', '1y', '5y'];
+
+      if (!validTimeframes.includes(timeframe)) {
+        return res.status(400).json({
+          success: false,
+          message: "Invalid timeframe. Use: 24h, 7d, 30d, 90d, 1y, 5y"
+        });
+      }
+
+      const history = await customIndexService.getHistory(req.params.id, timeframe as HistoryTimeframe);
+      if (!history) {
+        return res.status(404).json({
+          success: false,
+          message: "Index not found"
+        });
+      }
+      res.json({
+        id: req.params.id,
+        timeframe,
+        data: history,
+        count: history.length,
+        publication: publicationStateService.getStatus()
+      });
+    } catch (error: any) {
+      console.error("Custom index history API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch custom index history"
+      });
+    }
+  });
+
+  // Price snapshot endpoint - exact fiat and crypto inputs behind an index value.
+  // Accepts either a stored index value ID or a single fiat/crypto snapshot ID.
+  app.get("/api/snapshots/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const index = await storage.getAvgxIndex(id);
+
+      const fiatSnapshotId = index ? index.fiatSnapshotId : id;
+      const cryptoSnapshotId = index ? index.cryptoSnapshotId : id;
+
+      const [fiatRates, cryptoPrices] = await Promise.all([
+        fiatSnapshotId ? storage.getFiatRatesBySnapshot(fiatSnapshotId) : [],
+        cryptoSnapshotId ? storage.getCryptoPricesBySnapshot(cryptoSnapshotId) : []
+      ]);
+
+      if (!index && fiatRates.length === 0 && cryptoPrices.length === 0) {
+        return res.status(404).json({
+          success: false,
+          message: "Snapshot not found"
+        });
+      }
+
+      res.json({
+        id,
+        index: index ? {
+          value: parseFloat(index.value),
+          wf_value: parseFloat(index.wfValue),
+          wc_value: parseFloat(index.wcValue),
+          timestamp: index.timestamp
+        } : null,
+        fiat_snapshot_id: fiatRates.length > 0 ? fiatSnapshotId : null,
+        crypto_snapshot_id: cryptoPrices.length > 0 ? cryptoSnapshotId : null,
+        fiat_rates: fiatRates.map(rate => ({
+          currency: rate.currency,
+          rate: parseFloat(rate.rate),
+          weight: parseFloat(rate.weight),
+          timestamp: rate.timestamp
+        })),
+        crypto_prices: cryptoPrices.map(price => ({
+          symbol: price.symbol,
+          price: parseFloat(price.price),
+          market_cap: parseFloat(price.marketCap),
+          weight: parseFloat(price.weight),
+          timestamp: price.timestamp
+        }))
+      });
+    } catch (error: any) {
+      console.error("Snapshot API error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to fetch snapshot"
+      });
+    }
+  });
+
   // Simulate swap endpoint
   app.post("/api/simulate-swap", async (req, res) => {
     try {
@@ -208,6 +538,370 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admin backup - exports all backend state as one checksummed archive
+  app.get("/api/admin/backup", requireAdmin, async (req, res) => {
+    try {
+      const archive = await backupService.createArchive();
+      const filename = `avgx-backup-${archive.created_at.replace(/[:.]/g, '-')}.json`;
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.json(archive);
+    } catch (error: any) {
+      console.error("Backup export error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to export backup"
+      });
+    }
+  });
+
+  // Admin restore - replaces all backend state from an archive, ?dry_run=true only reports changes
+  app.post(ADMIN_RESTORE_PATH, requireAdmin, express.json({ limit: process.env.JSON_BODY_LIMIT || '50mb' }), async (req, res) => {
+    try {
+      const dryRun = req.query.dry_run === 'true';
+      const report = await backupService.restore(req.body, { dryRun });
+      res.json({ success: true, ...report });
+    } catch (error: any) {
+      console.error("Backup restore error:", error);
+      res.status(error instanceof BackupError ? 400 : 500).json({
+        success: false,
+        message: error instanceof BackupError ? error.message : "Failed to restore backup"
+      });
+    }
+  });
+
+  // Admin stability config - active version plus full audit trail
+  app.get("/api/admin/stability-config", requireAdmin, async (req, res) => {
+    try {
+      const [active, history] = await Promise.all([
+        stabilityConfigService.getActive(),
+        stabilityConfigService.getHistory()
+      ]);
+      res.json({ active, history });
+    } catch (error: any) {
+      console.error("Stability config read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to read stability config"
+      });
+    }
+  });
+
+  // Admin stability config update - creates a new version effective from the given timestamp
+  app.put("/api/admin/stability-config", requireAdmin, async (req, res) => {
+    try {
+      const update = stabilityConfigUpdateSchema.parse(req.body);
+      const version = await stabilityConfigService.update(update, res.locals.adminUser);
+      res.json({ success: true, version });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof StabilityConfigError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Stability config update error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update stability config"
+      });
+    }
+  });
+
+  // Admin price guard - thresholds and the log of quarantined provider prices, most recent first
+  app.get("/api/admin/price-guard", requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 1000);
+      const [config, quarantine] = await Promise.all([
+        priceGuardService.getConfig(),
+        priceGuardService.getQuarantine(limit)
+      ]);
+      res.json({ config, quarantine });
+    } catch (error: any) {
+      console.error("Price guard read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to read price guard"
+      });
+    }
+  });
+
+  // Admin price guard thresholds update - applies from the next price refresh
+  app.put("/api/admin/price-guard/config", requireAdmin, async (req, res) => {
+    try {
+      const config = await priceGuardService.updateConfig(priceGuardConfigSchema.parse(req.body), res.locals.adminUser);
+      res.json({ success: true, config });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: fromZodError(error).message
+        });
+      }
+      console.error("Price guard config update error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to update price guard config"
+      });
+    }
+  });
+
+  // Admin crypto price providers - consensus settings and recent rounds with per-provider deviation, most recent first
+  app.get("/api/admin/crypto-providers", requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 500);
+      const [providers, rounds] = await Promise.all([
+        cryptoPriceConsensusService.getProviders(),
+        cryptoPriceConsensusService.getRounds(limit)
+      ]);
+      res.json({
+        settings: cryptoPriceConsensusService.getSettings(),
+        providers: providers.map(({ id, description }) => ({ id, description })),
+        rounds
+      });
+    } catch (error: any) {
+      console.error("Crypto providers read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to read crypto providers"
+      });
+    }
+  });
+
+  // Admin FX rate providers - consensus settings and recent rounds with detected inversions and deviation, most recent first
+  app.get("/api/admin/fx-providers", requireAdmin, async (req, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(req.query.limit as string, 10) || 100, 1), 500);
+      const [providers, rounds] = await Promise.all([
+        fxRateConsensusService.getProviders(),
+        fxRateConsensusService.getRounds(limit)
+      ]);
+      res.json({
+        settings: fxRateConsensusService.getSettings(),
+        providers: providers.map(({ id, description }) => ({ id, description })),
+        rounds
+      });
+    } catch (error: any) {
+      console.error("FX providers read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to read FX providers"
+      });
+    }
+  });
+
+  // Admin publication state - live, degraded, frozen or halted, with any manual freeze
+  app.get("/api/admin/publication", requireAdmin, async (req, res) => {
+    try {
+      res.json({ success: true, publication: publicationStateService.getStatus() });
+    } catch (error: any) {
+      console.error("Publication state read error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to read publication state"
+      });
+    }
+  });
+
+  // Admin freeze - holds the last published value until unfrozen, across restarts
+  app.post("/api/admin/publication/freeze", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = freezeRequestSchema.parse(req.body);
+      const publication = await publicationStateService.freeze(res.locals.adminUser, reason);
+      res.json({ success: true, publication });
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({
+          success: false,
+          message: fromZodError(error).message
+        });
+      }
+      console.error("Publication freeze error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to freeze publication"
+      });
+    }
+  });
+
+  // Admin unfreeze - lifts a manual freeze and re-assesses with a fresh tick
+  app.post("/api/admin/publication/unfreeze", requireAdmin, async (req, res) => {
+    try {
+      // The next scheduled tick re-assesses the feeds and resumes publication
+      await publicationStateService.unfreeze(res.locals.adminUser);
+      res.json({ success: true, publication: publicationStateService.getStatus() });
+    } catch (error: any) {
+      console.error("Publication unfreeze error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to unfreeze publication"
+      });
+    }
+  });
+
+  // Admin backtest - replays a price dataset through the stability formula with alternative configs
+  app.post("/api/admin/backtest", requireAdmin, async (req, res) => {
+    try {
+      const request = backtestRequestSchema.parse(req.body);
+      const result = await backtestService.run(request);
+      res.json({ success: true, ...result });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof BacktestError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Backtest error:", error);
+      res.status(500).json({
+        success: false,
+        message: error.message || "Failed to run backtest"
+      });
+    }
+  });
+
+  // Basket schedule - basket in effect plus upcoming and past rebalances
+  app.get("/api/basket/schedule", async (req, res) => {
+    try {
+      const schedule = await basketScheduleService.getSchedule();
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Basket schedule error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to get basket schedule"
+      });
+    }
+  });
+
+  // Admin basket proposal - stores an effective-dated basket version awaiting approval
+  app.post("/api/admin/basket/proposals", requireAdmin, async (req, res) => {
+    try {
+      const proposal = basketProposalSchema.parse(req.body);
+      const version = await basketScheduleService.propose(proposal, res.locals.adminUser);
+      res.json({ success: true, version });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof BasketScheduleError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Basket proposal error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to propose basket"
+      });
+    }
+  });
+
+  // Admin basket review - approve or reject a proposed version
+  app.post("/api/admin/basket/proposals/:version/:decision(approve|reject)", requireAdmin, async (req, res) => {
+    try {
+      const { reason } = basketReviewSchema.parse(req.body ?? {});
+      const version = parseInt(req.params.version, 10);
+      const reviewed = req.params.decision === 'approve'
+        ? await basketScheduleService.approve(version, res.locals.adminUser, reason)
+        : await basketScheduleService.reject(version, res.locals.adminUser, reason);
+      res.json({ success: true, version: reviewed });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof BasketScheduleError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Basket review error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to review basket"
+      });
+    }
+  });
+
+  // Admin custom indices - registers a basket, published from the next tick
+  app.post("/api/admin/custom-indices", requireAdmin, async (req, res) => {
+    try {
+      const request = customIndexSchema.parse(req.body);
+      const definition = await customIndexService.register(request, res.locals.adminUser);
+      res.json({ success: true, index: definition });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof CustomIndexError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Custom index registration error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to register custom index"
+      });
+    }
+  });
+
+  app.delete("/api/admin/custom-indices/:id", requireAdmin, async (req, res) => {
+    try {
+      const definition = await customIndexService.retire(req.params.id, res.locals.adminUser);
+      res.json({ success: true, index: definition });
+    } catch (error: any) {
+      if (error instanceof CustomIndexError) {
+        return res.status(404).json({
+          success: false,
+          message: error.message
+        });
+      }
+      console.error("Custom index retirement error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to retire custom index"
+      });
+    }
+  });
+
+  // Admin crypto weights - proposes market-cap-based weights with a diff, nothing is adopted
+  app.post("/api/admin/crypto-weights/proposal", requireAdmin, async (req, res) => {
+    try {
+      const request = cryptoWeightingRequestSchema.parse(req.body ?? {});
+      const proposal = await cryptoWeightingService.propose(request);
+      await cryptoWeightingService.saveProposal(proposal);
+      res.json({ success: true, ...proposal });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof CryptoWeightingError || error instanceof WeightBoundsError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Crypto weighting error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to propose crypto weights"
+      });
+    }
+  });
+
+  // Admin fiat weights - derives weights from the CSV datasets and previews the WF and AVGX impact
+  app.post("/api/admin/fiat-weights/preview", requireAdmin, async (req, res) => {
+    try {
+      const request = fiatWeightingRequestSchema.parse(req.body ?? {});
+      const proposal = await fiatWeightingService.propose(request);
+      const impact = await fiatWeightingService.previewImpact(proposal);
+      res.json({ success: true, ...proposal, impact });
+    } catch (error: any) {
+      if (error instanceof ZodError || error instanceof FiatWeightingError || error instanceof WeightBoundsError) {
+        return res.status(400).json({
+          success: false,
+          message: error instanceof ZodError ? fromZodError(error).message : error.message
+        });
+      }
+      console.error("Fiat weighting error:", error);
+      res.status(500).json({
+        success: false,
+        message: "Failed to preview fiat weights"
+      });
+    }
+  });
+
   // Contact form submission
   app.post("/api/contact", async (req, res) => {
     try {
@@ -229,7 +923,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const debugInfo = await avgxCalculatorService.getDebugInfo();
       res.json({
         success: true,
-        data: debugInfo
+        data: debugInfo,
+        publication: indexScheduler.getStatus(),
+        publication_state: publicationStateService.getStatus()
       });
     } catch (error: any) {
       console.error("Debug API error:", error);
@@ -249,7 +945,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         wfValue: avgxData.wf_value,
         wcValue: avgxData.wc_value,
         change24h: avgxData.change24h,
-        timestamp: avgxData.timestamp
+        change1h: avgxData.statistics?.periods['1h'].change ?? null,
+        change7d: avgxData.statistics?.periods['7d'].change ?? null,
+        change30d: avgxData.statistics?.periods['30d'].change ?? null,
+        high24h: avgxData.statistics?.periods['24h'].high ?? null,
+        low24h: avgxData.statistics?.periods['24h'].low ?? null,
+        sinceInception: avgxData.statistics?.since_inception.return ?? null,
+        timestamp: avgxData.timestamp,
+        methodology: avgxData.methodology,
+        calculationHash: avgxData.calculation_hash,
+        publicationState: avgxData.publication?.state ?? null
       });
     } catch (error: any) {
       console.error("Legacy index error:", error);
@@ -259,8 +964,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/avgx/fiat-rates", async (req, res) => {
     try {
-      const fiatRates = await fiatApiService.getFiatRatesWithWeights();
-      res.json(fiatRates);
+      const { avgx, fiatBasket } = await avgxCalculatorService.getDetailedBreakdown();
+      res.set('X-AVGX-Publication-State', avgx.publication?.state ?? 'halted').json(fiatBasket);
     } catch (error: any) {
       console.error("Legacy fiat rates error:", error);
       res.status(500).json({ success: false, message: "Failed to get fiat rates" });
@@ -269,8 +974,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/avgx/crypto-prices", async (req, res) => {
     try {
-      const cryptoPrices = await cryptoApiService.getCryptoPricesWithWeights();
-      res.json(cryptoPrices);
+      const { avgx, cryptoBasket } = await avgxCalculatorService.getDetailedBreakdown();
+      res.set('X-AVGX-Publication-State', avgx.publication?.state ?? 'halted').json(cryptoBasket);
     } catch (error: any) {
       console.error("Legacy crypto prices error:", error);
       res.status(500).json({ success: false, message: "Failed to get crypto prices" });
@@ -280,9 +985,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/avgx/chart/:timeframe", async (req, res) => {
     try {
       const timeframe = req.params.timeframe;
-      const mappedTimeframe = timeframe === '1m' ? '30d' : timeframe === '1y' ? '30d' : timeframe;
-      const history = await avgxCalculatorService.getHistoricalData(mappedTimeframe as any);
-      res.json(history.map(h => ({ timestamp: new Date(h.timestamp), value: h.avgx_usd })));
+      const mappedTimeframe = timeframe === '1m' ? '30d' : timeframe;
+      const history = await avgxCalculatorService.getHistoricalData(mappedTimeframe as HistoryTimeframe);
+      res.set('X-AVGX-Publication-State', publicationStateService.getStatus().state)
+        .json(history.map(h => ({ timestamp: new Date(h.timestamp), value: h.avgx_usd })));
     } catch (error: any) {
       console.error("Legacy chart error:", error);
       res.json([]);
@@ -364,6 +1070,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const calculation = await avgxCoinService.calculateMintAmount(usdValue);
       res.json(calculation);
     } catch (error: any) {
+      if (error instanceof IndexUnavailableError) {
+        return res.status(503).json({
+          success: false,
+          message: error.message,
+          publication: publicationStateService.getStatus()
+        });
+      }
       console.error("Calculate mint API error:", error);
       res.status(500).json({
         success: false,
@@ -389,6 +1102,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const result = await avgxCoinService.simulateTrade(action, amountNum, chain || 'sepolia');
       res.json(result);
     } catch (error) {
+      if (error instanceof IndexUnavailableError) {
+        return res.status(503).json({ error: error.message, publication: publicationStateService.getStatus() });
+      }
       console.error('Error simulating trade:', error);
       res.status(500).json({ error: 'Failed to simulate trade' });
     }
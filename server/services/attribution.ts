@@ -0,0 +1,209 @@
+import { z } from 'zod';
+import { avgxCalculatorService } from './avgx-calculator';
+import { UNIT_DIVISORS, type CalculationRecord } from './calculation-record';
+import { getMethodology, type IndexMethodology } from './index-methodology';
+
+export const attributionQuerySchema = z.object({
+  from: z.string().datetime({ offset: true }),
+  to: z.string().datetime({ offset: true }).optional(), // Defaults to now
+}).strict().refine(q => !q.to || new Date(q.from) < new Date(q.to), 'from must be before to');
+
+export type AttributionQuery = z.infer<typeof attributionQuerySchema>;
+
+export interface ConstituentContribution {
+  key: string;                 // Currency code or CoinGecko id
+  price_from: number | null;   // Rate or USD price, null when not in the basket at that end
+  price_to: number | null;
+  price_change: number | null; // Percent
+  contribution: number;        // AVGX points
+  contribution_percent: number; // Percentage points of the AVGX change
+}
+
+export interface AttributionEndpoint {
+  timestamp: string;
+  calculation_hash: string;
+  fiat_snapshot_id: string | null;
+  crypto_snapshot_id: string | null;
+  avgx: number;
+}
+
+export interface AttributionResult {
+  from: AttributionEndpoint;
+  to: AttributionEndpoint;
+  change: number;         // AVGX points
+  change_percent: number;
+  effects: {
+    fiat: number;         // Raw fiat basket, split across fiat constituents below
+    crypto: number;       // Raw crypto basket, split across crypto constituents below
+    rebalancing: number;  // Index divisor changes from chain-linked basket switches
+    smoothing: number;    // EWMA smoothing of both legs
+    volatility: number;   // σ_t adjustment of the crypto leg
+    clamp: number;        // Daily movement clamp
+  };
+  contributions: {
+    fiat: ConstituentContribution[];
+    crypto: ConstituentContribution[];
+  };
+}
+
+export class AttributionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttributionError';
+  }
+}
+
+interface Leg {
+  entries: Array<{ key: string; price: number; weight: number }>; // Weights already divided by the leg divisor
+  raw: number;
+}
+
+function fiatLeg(record: CalculationRecord): Leg {
+  const divisor = (record.inputs.divisors ?? UNIT_DIVISORS).fiat;
+  const entries = record.inputs.fiat.map(f => ({ key: f.code, price: f.rate, weight: f.weight / divisor }));
+  return { entries, raw: entries.reduce((sum, e) => sum + e.price * e.weight, 0) };
+}
+
+function cryptoLeg(record: CalculationRecord): Leg {
+  const divisor = (record.inputs.divisors ?? UNIT_DIVISORS).crypto;
+  const entries = record.inputs.crypto.map(c => ({ key: c.id, price: c.price, weight: c.weight / divisor }));
+  return { entries, raw: entries.reduce((sum, e) => sum + e.price * e.weight, 0) };
+}
+
+/**
+ * Methodology output before the index divisor, with the legs taken as they
+ * are: no smoothing and no volatility adjustment
+ */
+function unsmoothed(methodology: IndexMethodology, fiat: Leg, crypto: Leg): number {
+  return methodology.compute({
+    fiat: fiat.entries.map(e => ({ code: e.key, rate: e.price, weight: e.weight })),
+    crypto: crypto.entries.map(e => ({ id: e.key, price: e.price, weight: e.weight })),
+    wf_raw: fiat.raw,
+    wc_raw: crypto.raw,
+    wf_smoothed: fiat.raw,
+    wc_smoothed: crypto.raw,
+    volatility_index: 0,
+    wc_adjusted: crypto.raw,
+  });
+}
+
+/**
+ * Methodology output from the stored smoothed legs with σ_t left out
+ */
+function smoothedUnadjusted(methodology: IndexMethodology, record: CalculationRecord): number {
+  const { intermediates } = record;
+  return methodology.compute({
+    fiat: fiatLeg(record).entries.map(e => ({ code: e.key, rate: e.price, weight: e.weight })),
+    crypto: cryptoLeg(record).entries.map(e => ({ id: e.key, price: e.price, weight: e.weight })),
+    wf_raw: intermediates.wf_raw,
+    wc_raw: intermediates.wc_raw,
+    wf_smoothed: intermediates.wf_smoothed,
+    wc_smoothed: intermediates.wc_smoothed,
+    volatility_index: 0,
+    wc_adjusted: intermediates.wc_smoothed,
+  }) / (record.inputs.divisors ?? UNIT_DIVISORS).index;
+}
+
+/**
+ * Splits a leg's effect across its constituents in proportion to each one's
+ * change in price times (divided) weight, which sum to the raw leg change
+ */
+function constituentContributions(from: Leg, to: Leg, effect: number, avgxFrom: number): ConstituentContribution[] {
+  const keys = Array.from(new Set([...from.entries.map(e => e.key), ...to.entries.map(e => e.key)]));
+  const legChange = to.raw - from.raw;
+
+  return keys.map(key => {
+    const before = from.entries.find(e => e.key === key);
+    const after = to.entries.find(e => e.key === key);
+    const valueChange = (after ? after.price * after.weight : 0) - (before ? before.price * before.weight : 0);
+    const contribution = legChange === 0 ? 0 : effect * (valueChange / legChange);
+    return {
+      key,
+      price_from: before?.price ?? null,
+      price_to: after?.price ?? null,
+      price_change: before && after ? ((after.price - before.price) / before.price) * 100 : null,
+      contribution,
+      contribution_percent: (contribution / avgxFrom) * 100,
+    };
+  }).sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+}
+
+class AttributionService {
+  /**
+   * Attributes the change in published AVGX between the calculation records
+   * in effect at `from` and `to`. With M the methodology output and d the
+   * index divisor, the change is split exactly into:
+   *
+   *   fiat + crypto   M over the raw baskets at the new divisor, split between
+   *                   the legs by averaging both orders of applying them, then
+   *                   across constituents by their share of the raw leg change
+   *   rebalancing     M(raw baskets at from) * (1/d_to - 1/d_from)
+   *   smoothing       change of M over the smoothed legs, less the raw change
+   *   volatility      change of the unclamped value, less the smoothed change
+   *   clamp           change of (final - unclamped)
+   */
+  async attribute(query: AttributionQuery): Promise<AttributionResult> {
+    const to = query.to ? new Date(query.to) : new Date();
+    const [start, end] = await Promise.all([
+      avgxCalculatorService.getCalculationRecordAt(new Date(query.from)),
+      avgxCalculatorService.getCalculationRecordAt(to),
+    ]);
+    if (!end) {
+      throw new AttributionError('No calculation records are stored yet');
+    }
+    if (!start) {
+      throw new AttributionError(`No calculation record is stored at or before ${query.from}; choose a later from`);
+    }
+    if (start.methodology.id !== end.methodology.id || start.methodology.version !== end.methodology.version) {
+      throw new AttributionError('The index methodology changed within the period');
+    }
+
+    const methodology = getMethodology(end.methodology.id);
+    const divisorFrom = (start.inputs.divisors ?? UNIT_DIVISORS).index;
+    const divisorTo = (end.inputs.divisors ?? UNIT_DIVISORS).index;
+    const [fiatFrom, fiatTo, cryptoFrom, cryptoTo] = [fiatLeg(start), fiatLeg(end), cryptoLeg(start), cryptoLeg(end)];
+
+    // Raw baskets: legs split by the average of both orderings
+    const m = (fiat: Leg, crypto: Leg) => unsmoothed(methodology, fiat, crypto);
+    const rawFrom = m(fiatFrom, cryptoFrom);
+    const rawTo = m(fiatTo, cryptoTo);
+    const fiat = ((m(fiatTo, cryptoFrom) - rawFrom) + (rawTo - m(fiatFrom, cryptoTo))) / 2 / divisorTo;
+    const crypto = (rawTo - rawFrom) / divisorTo - fiat;
+    const rebalancing = rawFrom * (1 / divisorTo - 1 / divisorFrom);
+    const rawChange = rawTo / divisorTo - rawFrom / divisorFrom;
+
+    const smoothedChange = smoothedUnadjusted(methodology, end) - smoothedUnadjusted(methodology, start);
+    const unclampedChange = end.intermediates.avgx_unclamped - start.intermediates.avgx_unclamped;
+    const change = end.intermediates.avgx_final - start.intermediates.avgx_final;
+    const avgxFrom = start.intermediates.avgx_final;
+
+    const endpoint = (record: CalculationRecord): AttributionEndpoint => ({
+      timestamp: record.timestamp,
+      calculation_hash: record.hash,
+      fiat_snapshot_id: record.inputs.fiat_snapshot_id,
+      crypto_snapshot_id: record.inputs.crypto_snapshot_id,
+      avgx: record.intermediates.avgx_final,
+    });
+
+    return {
+      from: endpoint(start),
+      to: endpoint(end),
+      change,
+      change_percent: (change / avgxFrom) * 100,
+      effects: {
+        fiat,
+        crypto,
+        rebalancing,
+        smoothing: smoothedChange - rawChange,
+        volatility: unclampedChange - smoothedChange,
+        clamp: change - unclampedChange,
+      },
+      contributions: {
+        fiat: constituentContributions(fiatFrom, fiatTo, fiat, avgxFrom),
+        crypto: constituentContributions(cryptoFrom, cryptoTo, crypto, avgxFrom),
+      },
+    };
+  }
+}
+
+export const attributionService = new AttributionService();
@@ -1,6 +1,27 @@
 import { cryptoApiService } from './crypto-api';
 import { fiatApiService } from './fiat-api';
 import { FileManager } from '../utils/file-manager';
+import { historyRetentionService } from './history-retention';
+import { storage } from '../storage';
+import { getMethodology, type IndexMethodology, type MethodologyInfo } from './index-methodology';
+import { stabilityConfigService, type StabilityConfig, type StabilityConfigVersion } from './stability-config';
+import { volatilityWindow } from './stability-formula';
+import { computeIndexStatistics, type IndexStatistics } from './index-statistics';
+import {
+  buildCalculationRecord,
+  summarizeSmoothedWindow,
+  UNIT_DIVISORS,
+  type CalculationInputs,
+  type CalculationRecord,
+  type CryptoInput,
+  type FiatInput,
+} from './calculation-record';
+import { indexDivisorService, linkDivisors } from './index-divisor';
+import { publicationStateService, type PublicationStatus } from './publication-state';
+
+// Recent records for restarts and fast lookup; every record is also kept with its avgx_index row
+export const CALCULATION_RECORDS_FILE = 'calculation_records.json';
+const MAX_CALCULATION_RECORDS = 200;
 
 export interface AvgxCalculationResult {
   avgx_usd: number;
@@ -8,6 +29,14 @@ export interface AvgxCalculationResult {
   wc_value: number;
   change24h: number;
   timestamp: string;
+  index_id?: string;                 // Stored avgx_index record, when persisted
+  fiat_snapshot_id?: string | null;  // Fiat rate snapshot the value was computed from
+  crypto_snapshot_id?: string | null; // Crypto price snapshot the value was computed from
+  methodology?: MethodologyInfo;     // Index methodology that produced the value
+  config_version?: number;           // StabilityConfig version that produced the value
+  statistics?: IndexStatistics;      // Period changes, highs/lows and since-inception return
+  calculation_hash?: string;         // Hash of the calculation record behind the value
+  publication?: PublicationStatus;   // Whether the value is live, degraded, frozen or halted
 }
 
 export interface HistoryEntry {
@@ -17,33 +46,42 @@ export interface HistoryEntry {
   wc_value: number;
 }
 
-// Configuration parameters for the stability formula
-interface StabilityConfig {
-  alpha_f: number;      // Smoothing factor for fiat (default: 0.2)
-  alpha_c: number;      // Smoothing factor for crypto (default: 0.1)
-  v_target: number;     // Target volatility percentage (default: 10%)
-  clamp_percent: number; // Daily movement clamp percentage (default: 1.5%)
-  volatility_window: number; // Rolling window for volatility calculation (default: 30)
-}
-
-interface SmoothedValues {
+// Intermediate values of the stability formula for a published tick
+export interface AvgxDebugInfo {
+  wf_raw: number;
   wf_smoothed: number;
+  wc_raw: number;
   wc_smoothed: number;
   volatility_index: number;
   wc_adjusted: number;
+  avgx_unclamped: number;
+  avgx_final: number;
+  config: StabilityConfig;
+  config_version: number;
+  config_effective_from: string;
+  methodology: MethodologyInfo;
+  calculation_hash: string;
+  timestamp: string;
 }
 
+export type HistoryTimeframe = '24h' | '7d' | '30d' | '90d' | '1y' | '5y';
+
+export const TIMEFRAME_MS: Record<HistoryTimeframe, number> = {
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+  '30d': 30 * 24 * 60 * 60 * 1000,
+  '90d': 90 * 24 * 60 * 60 * 1000,
+  '1y': 365 * 24 * 60 * 60 * 1000,
+  '5y': 5 * 365 * 24 * 60 * 60 * 1000,
+};
+
 class AvgxCalculatorService {
   private static instance: AvgxCalculatorService;
-  private config: StabilityConfig = {
-    alpha_f: 0.2,
-    alpha_c: 0.1, 
-    v_target: 0.10,
-    clamp_percent: 0.015,
-    volatility_window: 30
-  };
-  private readonly CACHE_DURATION = 60000; // 1 minute
-  private lastCalculation: AvgxCalculationResult | null = null;
+  // Selected by AVGX_METHODOLOGY, see index-methodology.ts for the registered strategies
+  private methodology: IndexMethodology = getMethodology(process.env.AVGX_METHODOLOGY || 'stability');
+  // stored is false for a halted tick that was served but kept out of the history
+  private latestPublished: { result: AvgxCalculationResult; record: CalculationRecord; stored: boolean } | null = null;
+  private publishing: Promise<AvgxCalculationResult> | null = null;
 
 
   public static getInstance(): AvgxCalculatorService {
@@ -54,205 +92,230 @@ class AvgxCalculatorService {
   }
 
   /**
-   * Calculates the current AVGX value using the stability formula:
+   * Forgets the in-memory tick so the next one chain-links, smooths and
+   * clamps against the stored state, e.g. after a restore replaced it
+   */
+  async reset(): Promise<void> {
+    await this.publishing?.catch(() => undefined);
+    this.latestPublished = null;
+  }
+
+  /**
+   * Latest published AVGX tick. Only the index scheduler advances the index;
+   * reads publish once themselves only if nothing has been published yet.
+   */
+  async getCurrentAvgx(): Promise<AvgxCalculationResult> {
+    if (this.latestPublished) return this.withPublication(this.latestPublished.result);
+    return this.publishIndex();
+  }
+
+  /**
+   * Computes and publishes a new tick using the stability formula:
    * AVGX(t) = sqrt( WF_smoothed(t) * ( WC_smoothed(t) * (1 - σ_t) ) )
-   * where σ_t is a volatility index adjustment in [0,1]
+   * where σ_t is a volatility index adjustment in [0,1].
+   * Concurrent callers share one computation. While the publication state is
+   * frozen the last published tick is held and returned instead.
    */
-  async calculateAvgxIndex(): Promise<AvgxCalculationResult> {
-    try {
-      // Initialize services if needed
-      await Promise.all([
-        fiatApiService.initialize(),
-        cryptoApiService.initialize()
-      ]);
+  async publishIndex(): Promise<AvgxCalculationResult> {
+    if (!this.publishing) {
+      this.publishing = this.computeAndPublish().finally(() => {
+        this.publishing = null;
+      });
+    }
+    return this.publishing;
+  }
 
-      // Get weighted averages for both baskets
-      const [fiatData, cryptoData] = await Promise.all([
+  private async computeAndPublish(): Promise<AvgxCalculationResult> {
+    try {
+      const [fiatRates, cryptoPrices] = await Promise.all([
         fiatApiService.getFiatRatesWithWeights(),
         cryptoApiService.getCryptoPricesWithWeights()
       ]);
 
-      const wfValue = fiatApiService.getWeightedFiatAverage();
-      const wcValue = cryptoApiService.getWeightedCryptoAverage();
-
-      // Calculate AVGX using the mathematical formula
-      const avgxValue = Math.sqrt(wfValue * wcValue);
-
-      // Get historical data for 24h change calculation
-      const history = await this.getHistoricalData('24h');
-      let change24h = 0;
-
-      if (history.length > 0) {
-        const dayAgo = history[0];
-        if (dayAgo && dayAgo.avgx_usd > 0) {
-          change24h = ((avgxValue - dayAgo.avgx_usd) / dayAgo.avgx_usd) * 100;
+      const assessment = await publicationStateService.assess(fiatApiService.getFeedStatus(), cryptoApiService.getFeedStatus());
+      if (assessment.state === 'frozen') {
+        const held = this.latestPublished?.stored ? this.latestPublished : await this.restoreLatestPublished();
+        if (held) {
+          publicationStateService.transition('frozen', assessment.reasons, held.result.timestamp);
+          return this.withPublication(held.result);
         }
       }
 
-      const result: AvgxCalculationResult = {
-        avgx_usd: avgxValue,
-        wf_value: wfValue,
-        wc_value: wcValue,
-        change24h,
-        timestamp: new Date().toISOString(),
+      // Stability formula with the config version in effect now
+      const timestamp = new Date().toISOString();
+      const activeConfig = await stabilityConfigService.getActive(new Date(timestamp));
+
+      const inputs: CalculationInputs = {
+        fiat: fiatRates.map((f): FiatInput => ({ code: f.code, name: f.name, rate: f.rate, weight: f.weight })),
+        crypto: cryptoPrices.map((c): CryptoInput => ({ id: c.id, symbol: c.symbol, name: c.name, price: c.price, weight: c.weight })),
+        fiat_snapshot_id: fiatApiService.getSnapshotId(),
+        crypto_snapshot_id: cryptoApiService.getSnapshotId(),
+        ...await this.loadCalculationState(activeConfig.config, timestamp),
+      };
+
+      const config = {
+        version: activeConfig.version,
+        effective_from: activeConfig.effective_from,
+        values: activeConfig.config,
       };
 
-      this.lastCalculation = result;
+      // Keep the index level continuous across basket changes
+      const previous = this.latestPublished?.stored ? this.latestPublished.record : await this.getLastStoredRecord();
+      const link = linkDivisors(timestamp, inputs, previous, config, this.methodology);
+      inputs.divisors = link.divisors;
 
-      // Save to history (every hour to avoid too much data)
-      const now = new Date();
-      const shouldSaveHistory = now.getMinutes() === 0; // Save at the top of each hour
+      const record = buildCalculationRecord(timestamp, inputs, config, this.methodology);
+      const { intermediates } = record;
 
-      if (shouldSaveHistory) {
-        await FileManager.appendToHistory({
-          timestamp: result.timestamp,
-          avgx_usd: result.avgx_usd,
-          wf_value: result.wf_value,
-          wc_value: result.wc_value,
-        });
+      const result = await this.resultFromRecord(record);
+
+      if (assessment.state === 'frozen') {
+        // Nothing to hold: serve the value, but keep it out of the stored history
+        publicationStateService.transition('halted', [...assessment.reasons, 'No published value to hold'], timestamp);
+        this.latestPublished = { result, record, stored: false };
+        return this.withPublication(result);
       }
 
-      // Update baseline
-      const baseline = await FileManager.readJson<any>('baseline.json') || {};
-      baseline.avgx_value = result.avgx_usd;
-      baseline.wf_value = result.wf_value;
-      baseline.wc_value = result.wc_value;
-      baseline.timestamp = result.timestamp;
-      await FileManager.writeJson('baseline.json', baseline);
+      console.log(`AVGX published: $${intermediates.avgx_final.toFixed(4)} (WF: ${intermediates.wf_smoothed.toFixed(4)}, WC: $${intermediates.wc_adjusted.toFixed(2)}, σ: ${intermediates.volatility_index.toFixed(4)})`);
 
-      console.log(`AVGX calculated: $${avgxValue.toFixed(4)} (WF: ${wfValue.toFixed(4)}, WC: $${wcValue.toFixed(2)})`);
+      // Store the record and the values needed for the next tick's smoothing and clamp
+      if (link.adjustment) await indexDivisorService.record(link.adjustment);
+      await this.storeCalculationRecord(record);
+      await this.storeSmoothedValues(record, activeConfig);
+      await historyRetentionService.record({
+        timestamp,
+        avgx_usd: intermediates.avgx_final,
+        wf_value: intermediates.wf_smoothed,
+        wc_value: intermediates.wc_adjusted,
+      });
 
-      return result;
-    } catch (error) {
-      console.error('Failed to calculate AVGX index:', error);
-
-      // Fallback to baseline
-      const baseline = await FileManager.readJson<any>('baseline.json');
-      if (baseline?.avgx_value) {
-        console.warn('Falling back to baseline AVGX value');
-        return {
-          avgx_usd: baseline.avgx_value,
-          wf_value: baseline.wf_value || 1.0,
-          wc_value: baseline.wc_value || 62500.0,
-          change24h: 0,
-          timestamp: new Date().toISOString(),
-        };
-      }
+      result.index_id = await this.storeIndexValue(result, record);
 
-      throw new Error('Failed to calculate AVGX index');
+      this.latestPublished = { result, record, stored: true };
+      publicationStateService.transition(assessment.state, assessment.reasons, timestamp);
+      return this.withPublication(result);
+    } catch (error: any) {
+      console.error('Error calculating AVGX:', error);
+      const held = this.latestPublished?.stored ? this.latestPublished.result.timestamp : null;
+      publicationStateService.transition(held ? 'frozen' : 'halted', [`Publication failed: ${error.message || error}`], held);
+      throw error;
     }
   }
 
   /**
-   * Get current AVGX calculation with caching
+   * The published result of a calculation record, with statistics as of its timestamp
    */
-  async getCurrentAvgx(): Promise<{
-    avgx_usd: number;
-    wf_value: number;
-    wc_value: number;
-    change24h: number;
-    timestamp: string;
-  }> {
-    try {
-      const [fiatRates, cryptoPrices] = await Promise.all([
-        fiatApiService.getFiatRatesWithWeights(),
-        cryptoApiService.getCryptoPricesWithWeights()
-      ]);
-
-      // Calculate raw weighted baskets
-      const wfRaw = fiatRates.reduce((sum, fiat) => sum + (fiat.rate * fiat.weight), 0);
-      const wcRaw = cryptoPrices.reduce((sum, crypto) => sum + (crypto.price * crypto.weight), 0);
-
-      // Apply stability formula
-      const smoothedValues = await this.calculateSmoothedValues(wfRaw, wcRaw);
-
-      // AVGX = sqrt(WF_smoothed * WC_adjusted)
-      const avgxValue = Math.sqrt(smoothedValues.wf_smoothed * smoothedValues.wc_adjusted);
+  private async resultFromRecord(record: CalculationRecord): Promise<AvgxCalculationResult> {
+    const { intermediates, timestamp } = record;
 
-      // Apply daily movement clamp
-      const clampedAvgxValue = await this.applyDailyClamp(avgxValue);
+    // Changes are measured against history as of exactly one period ago
+    const statistics = await computeIndexStatistics(intermediates.avgx_final, timestamp);
 
-      // Calculate 24h change (simplified - would need historical data for accuracy)
-      const change24h = 0; // TODO: Implement with historical data
+    return {
+      avgx_usd: intermediates.avgx_final,
+      wf_value: intermediates.wf_smoothed,
+      wc_value: intermediates.wc_adjusted,
+      change24h: statistics.periods['24h'].change ?? 0,
+      timestamp,
+      fiat_snapshot_id: record.inputs.fiat_snapshot_id,
+      crypto_snapshot_id: record.inputs.crypto_snapshot_id,
+      methodology: record.methodology,
+      config_version: record.config.version,
+      statistics,
+      calculation_hash: record.hash,
+    };
+  }
 
-      const result = {
-        avgx_usd: clampedAvgxValue,
-        wf_value: smoothedValues.wf_smoothed,
-        wc_value: smoothedValues.wc_adjusted,
-        change24h,
-        timestamp: new Date().toISOString()
-      };
+  /**
+   * After a restart, the last stored tick is what a frozen index holds
+   */
+  private async restoreLatestPublished(): Promise<AvgxCalculatorService['latestPublished']> {
+    const record = await this.getLastStoredRecord();
+    if (!record) return null;
+    this.latestPublished = { result: await this.resultFromRecord(record), record, stored: true };
+    return this.latestPublished;
+  }
 
-      console.log(`AVGX calculated: $${clampedAvgxValue.toFixed(4)} (WF: ${smoothedValues.wf_smoothed.toFixed(4)}, WC: $${smoothedValues.wc_adjusted.toFixed(2)}, σ: ${smoothedValues.volatility_index.toFixed(4)})`);
+  private withPublication(result: AvgxCalculationResult): AvgxCalculationResult {
+    return { ...result, publication: publicationStateService.getStatus() };
+  }
 
-      // Store current values for smoothing history
-      await this.storeSmoothedValues(smoothedValues, clampedAvgxValue);
+  /**
+   * ID and version of the methodology currently producing the index
+   */
+  getMethodologyInfo(): MethodologyInfo {
+    return { id: this.methodology.id, version: this.methodology.version };
+  }
 
-      return result;
-    } catch (error) {
-      console.error('Error calculating AVGX:', error);
-      throw error;
+  /**
+   * Latest published calculation record
+   */
+  async getLatestRecord(): Promise<CalculationRecord> {
+    if (!this.latestPublished) {
+      await this.publishIndex();
     }
+    return this.latestPublished!.record;
   }
 
-  private shouldRefreshCache(): boolean {
-    if (!this.lastCalculation) return true;
-    return Date.now() - new Date(this.lastCalculation.timestamp).getTime() > this.CACHE_DURATION;
+  /**
+   * Stored calculation record by hash, or null if no stored value has it
+   */
+  async getCalculationRecord(hash: string): Promise<CalculationRecord | null> {
+    if (this.latestPublished?.record.hash === hash) return this.latestPublished.record;
+    const records = await FileManager.readJson<CalculationRecord[]>(CALCULATION_RECORDS_FILE) || [];
+    const recent = records.find(r => r.hash === hash);
+    if (recent) return recent;
+
+    const row = await storage.getAvgxIndexByCalculationHash(hash);
+    return (row?.calculationRecord as CalculationRecord | null | undefined) ?? null;
   }
 
   /**
-   * Get detailed breakdown of the AVGX calculation
+   * Calculation record of the value in effect at the given time, i.e. the
+   * last one stored at or before it, or null if there is none
+   */
+  async getCalculationRecordAt(at: Date): Promise<CalculationRecord | null> {
+    // Recent records are stored in order, so they answer for any time after the oldest of them
+    const records = await FileManager.readJson<CalculationRecord[]>(CALCULATION_RECORDS_FILE) || [];
+    const recent = [...records].reverse().find(r => new Date(r.timestamp).getTime() <= at.getTime());
+    if (recent) return recent;
+
+    const row = await storage.getAvgxIndexAt(at);
+    return (row?.calculationRecord as CalculationRecord | null | undefined) ?? null;
+  }
+
+  /**
+   * Get detailed breakdown of the AVGX calculation: the published value, the
+   * basket inputs it was computed from and the chain-linking divisors
    */
   async getDetailedBreakdown() {
-    const [fiatData, cryptoData, avgxResult] = await Promise.all([
-      fiatApiService.getFiatRatesWithWeights(),
-      cryptoApiService.getCryptoPricesWithWeights(),
-      this.getCurrentAvgx()
-    ]);
+    const avgxResult = await this.getCurrentAvgx();
+    const record = this.latestPublished!.record;
 
     return {
       avgx: avgxResult,
-      fiatBasket: fiatData,
-      cryptoBasket: cryptoData,
+      fiatBasket: record.inputs.fiat,
+      cryptoBasket: record.inputs.crypto,
+      divisors: record.inputs.divisors ?? UNIT_DIVISORS,
+      divisorAdjustments: await indexDivisorService.getAdjustments(),
     };
   }
 
   /**
-   * Get historical AVGX data
+   * Get historical AVGX data from the retention tier that best fits the timeframe
    */
-  async getHistoricalData(timeframe: '24h' | '7d' | '30d'): Promise<HistoryEntry[]> {
-    const history = await FileManager.readJson<HistoryEntry[]>('history.json') || [];
-
-    const now = new Date();
-    let cutoffDate: Date;
-
-    switch (timeframe) {
-      case '24h':
-        cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-        break;
-      case '7d':
-        cutoffDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case '30d':
-        cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        break;
-      default:
-        cutoffDate = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    }
-
-    return history
-      .filter(entry => new Date(entry.timestamp) >= cutoffDate)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  async getHistoricalData(timeframe: HistoryTimeframe): Promise<HistoryEntry[]> {
+    const span = TIMEFRAME_MS[timeframe] ?? TIMEFRAME_MS['24h'];
+    const { entries } = await historyRetentionService.getRange(new Date(Date.now() - span));
+    return entries;
   }
 
   /**
    * Convert AVGX to all fiat currencies
    */
   async convertToAllCurrencies(): Promise<Array<{ currency: string; name: string; rate: number; avgx_rate: number }>> {
-    const [avgxData, fiatData] = await Promise.all([
-      this.getCurrentAvgx(),
-      fiatApiService.getFiatRatesWithWeights()
-    ]);
+    const avgxData = await this.getCurrentAvgx();
+    const fiatData = this.latestPublished!.record.inputs.fiat;
 
     return fiatData.map(fiat => ({
       currency: fiat.code,
@@ -263,156 +326,102 @@ class AvgxCalculatorService {
   }
 
   /**
-   * Calculates smoothed values and volatility index according to stability formula
+   * EWMA state and previous published value the next tick is computed from
    */
-  private async calculateSmoothedValues(wfRaw: number, wcRaw: number): Promise<SmoothedValues> {
-    try {
-      // Get previous smoothed values from storage
-      const history = await this.getSmoothedHistory();
-      const lastSmoothed = history.length > 0 ? history[history.length - 1] : null;
-
-      // Apply EWMA smoothing
-      const wfSmoothed = lastSmoothed 
-        ? this.config.alpha_f * wfRaw + (1 - this.config.alpha_f) * lastSmoothed.wf_smoothed
-        : wfRaw;
-
-      const wcSmoothed = lastSmoothed
-        ? this.config.alpha_c * wcRaw + (1 - this.config.alpha_c) * lastSmoothed.wc_smoothed  
-        : wcRaw;
-
-      // Calculate volatility index σ_t
-      const volatilityIndex = await this.calculateVolatilityIndex(wcSmoothed, history);
-
-      // Apply volatility adjustment to crypto component
-      const wcAdjusted = wcSmoothed * (1 - volatilityIndex);
-
-      return {
-        wf_smoothed: wfSmoothed,
-        wc_smoothed: wcSmoothed,
-        volatility_index: volatilityIndex,
-        wc_adjusted: wcAdjusted
-      };
-    } catch (error) {
-      console.error('Error calculating smoothed values:', error);
-      // Fallback to raw values if smoothing fails
-      return {
-        wf_smoothed: wfRaw,
-        wc_smoothed: wcRaw,
-        volatility_index: 0,
-        wc_adjusted: wcRaw
-      };
-    }
+  private async loadCalculationState(config: StabilityConfig, timestamp: string): Promise<Pick<CalculationInputs, 'smoothed_window' | 'last_avgx'>> {
+    const [smoothedHistory, latest] = await Promise.all([
+      this.getSmoothedHistory(),
+      historyRetentionService.getLatest()
+    ]);
+
+    return {
+      // Only the volatility window is read by the formula
+      smoothed_window: summarizeSmoothedWindow(volatilityWindow(smoothedHistory, timestamp, config)),
+      // Every stored tick is in the raw history tier, so this is the previous published value
+      last_avgx: latest ? latest.avgx_usd : null,
+    };
   }
 
   /**
-   * Calculates volatility index σ_t based on 30-day rolling window
+   * Most recent stored calculation record, used after a restart
    */
-  private async calculateVolatilityIndex(wcSmoothed: number, history: any[]): Promise<number> {
-    try {
-      if (history.length < 2) return 0;
-
-      // Get recent WC smoothed values for volatility calculation
-      const recentValues = history
-        .slice(-this.config.volatility_window)
-        .map(h => h.wc_smoothed)
-        .concat([wcSmoothed]);
-
-      if (recentValues.length < 2) return 0;
-
-      // Calculate log returns
-      const logReturns = [];
-      for (let i = 1; i < recentValues.length; i++) {
-        const logReturn = Math.log(recentValues[i] / recentValues[i - 1]);
-        logReturns.push(logReturn);
-      }
-
-      if (logReturns.length === 0) return 0;
-
-      // Calculate standard deviation of log returns
-      const mean = logReturns.reduce((sum, val) => sum + val, 0) / logReturns.length;
-      const variance = logReturns.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / logReturns.length;
-      const stdDev = Math.sqrt(variance);
-
-      // Annualize volatility (assuming daily data points)
-      const annualizedVol = stdDev * Math.sqrt(365);
-
-      // Calculate volatility index: σ_t = min(1, σ_annualized / V_target)
-      const volatilityIndex = Math.min(1, annualizedVol / this.config.v_target);
-
-      return volatilityIndex;
-    } catch (error) {
-      console.error('Error calculating volatility index:', error);
-      return 0;
-    }
+  private async getLastStoredRecord(): Promise<CalculationRecord | null> {
+    const records = await FileManager.readJson<CalculationRecord[]>(CALCULATION_RECORDS_FILE) || [];
+    return records.length > 0 ? records[records.length - 1] : null;
   }
 
   /**
-   * Applies daily movement clamp to prevent excessive volatility
+   * Keeps the most recent calculation records for lookup and replay
    */
-  private async applyDailyClamp(avgxValue: number): Promise<number> {
+  private async storeCalculationRecord(record: CalculationRecord): Promise<void> {
     try {
-      const history = await this.getAvgxHistory();
-      if (history.length === 0) return avgxValue;
-
-      const lastAvgx = history[history.length - 1].avgx_usd;
-      const maxChange = lastAvgx * this.config.clamp_percent;
-
-      // Clamp the change to ±1.5% per day
-      const change = avgxValue - lastAvgx;
-      const clampedChange = Math.max(-maxChange, Math.min(maxChange, change));
-
-      return lastAvgx + clampedChange;
+      await FileManager.update<CalculationRecord[]>(CALCULATION_RECORDS_FILE, records => {
+        return [...(Array.isArray(records) ? records : []), record].slice(-MAX_CALCULATION_RECORDS);
+      });
     } catch (error) {
-      console.error('Error applying daily clamp:', error);
-      return avgxValue;
+      console.error('Error storing calculation record:', error);
     }
   }
 
   /**
    * Stores smoothed values for historical tracking
    */
-  private async storeSmoothedValues(smoothedValues: SmoothedValues, avgxValue: number): Promise<void> {
+  private async storeSmoothedValues(record: CalculationRecord, activeConfig: StabilityConfigVersion): Promise<void> {
     try {
-      const timestamp = new Date().toISOString();
       const data = {
-        timestamp,
-        wf_smoothed: smoothedValues.wf_smoothed,
-        wc_smoothed: smoothedValues.wc_smoothed,
-        volatility_index: smoothedValues.volatility_index,
-        wc_adjusted: smoothedValues.wc_adjusted,
-        avgx_usd: avgxValue
+        timestamp: record.timestamp,
+        wf_smoothed: record.intermediates.wf_smoothed,
+        wc_smoothed: record.intermediates.wc_smoothed,
+        volatility_index: record.intermediates.volatility_index,
+        wc_adjusted: record.intermediates.wc_adjusted,
+        avgx_usd: record.intermediates.avgx_final,
+        config_version: activeConfig.version
       };
 
-      // Store in history file (keep last 100 entries)
-      const history = await this.getSmoothedHistory();
-      history.push(data);
+      // Store in history file (keep last 100 entries, or the full volatility window)
+      await FileManager.update<any[]>('smoothed_history.json', history => {
+        const updated = Array.isArray(history) ? history : [];
+        updated.push(data);
 
-      // Keep only recent entries
-      const recentHistory = history.slice(-100);
-
-      await FileManager.writeJson('smoothed_history.json', recentHistory);
+        // Keep only recent entries
+        const windowed = volatilityWindow(updated, record.timestamp, activeConfig.config);
+        return windowed.length >= 100 ? windowed : updated.slice(-100);
+      });
     } catch (error) {
       console.error('Error storing smoothed values:', error);
     }
   }
 
   /**
-   * Gets smoothed values history for EWMA calculation
+   * Persists a published index value together with the snapshot IDs of its
+   * inputs and its calculation record
    */
-  private async getSmoothedHistory(): Promise<any[]> {
+  private async storeIndexValue(result: AvgxCalculationResult, record: CalculationRecord): Promise<string | undefined> {
     try {
-      return await FileManager.readJson<any[]>('smoothed_history.json') || [];
+      const stored = await storage.storeAvgxIndex({
+        timestamp: new Date(result.timestamp),
+        value: result.avgx_usd.toString(),
+        wfValue: result.wf_value.toString(),
+        wcValue: result.wc_value.toString(),
+        change24h: result.change24h.toFixed(2),
+        fiatSnapshotId: result.fiat_snapshot_id ?? null,
+        cryptoSnapshotId: result.crypto_snapshot_id ?? null,
+        calculationHash: record.hash,
+        calculationRecord: record,
+      });
+      return stored.id;
     } catch (error) {
-      return [];
+      console.error('Error storing AVGX index value:', error);
+      return undefined;
     }
   }
 
   /**
-   * Gets AVGX history for clamping calculation
+   * Gets smoothed values history for EWMA calculation
    */
-  private async getAvgxHistory(): Promise<any[]> {
+  private async getSmoothedHistory(): Promise<any[]> {
     try {
-      return await FileManager.readJson<any[]>('history.json') || [];
+      return await FileManager.readJson<any[]>('smoothed_history.json') || [];
     } catch (error) {
       return [];
     }
@@ -420,50 +429,19 @@ class AvgxCalculatorService {
 
   /**
    * Gets debug information showing intermediate values in the stability formula
+   * for the latest published tick
    */
-  public async getDebugInfo(): Promise<{
-    wf_raw: number;
-    wf_smoothed: number;
-    wc_raw: number;
-    wc_smoothed: number;
-    volatility_index: number;
-    wc_adjusted: number;
-    avgx_final: number;
-    config: StabilityConfig;
-    timestamp: string;
-  }> {
-    try {
-      const [fiatRates, cryptoPrices] = await Promise.all([
-        fiatApiService.getFiatRatesWithWeights(),
-        cryptoApiService.getCryptoPricesWithWeights()
-      ]);
-
-      // Calculate raw weighted baskets
-      const wfRaw = fiatRates.reduce((sum, fiat) => sum + (fiat.rate * fiat.weight), 0);
-      const wcRaw = cryptoPrices.reduce((sum, crypto) => sum + (crypto.price * crypto.weight), 0);
-
-      // Apply stability formula
-      const smoothedValues = await this.calculateSmoothedValues(wfRaw, wcRaw);
-
-      // Calculate final AVGX
-      const avgxValue = Math.sqrt(smoothedValues.wf_smoothed * smoothedValues.wc_adjusted);
-      const clampedAvgxValue = await this.applyDailyClamp(avgxValue);
-
-      return {
-        wf_raw: wfRaw,
-        wf_smoothed: smoothedValues.wf_smoothed,
-        wc_raw: wcRaw,
-        wc_smoothed: smoothedValues.wc_smoothed,
-        volatility_index: smoothedValues.volatility_index,
-        wc_adjusted: smoothedValues.wc_adjusted,
-        avgx_final: clampedAvgxValue,
-        config: this.config,
-        timestamp: new Date().toISOString()
-      };
-    } catch (error) {
-      console.error('Error getting debug info:', error);
-      throw error;
-    }
+  public async getDebugInfo(): Promise<AvgxDebugInfo> {
+    const record = await this.getLatestRecord();
+    return {
+      ...record.intermediates,
+      config: record.config.values,
+      config_version: record.config.version,
+      config_effective_from: record.config.effective_from,
+      methodology: record.methodology,
+      calculation_hash: record.hash,
+      timestamp: record.timestamp
+    };
   }
 }
 
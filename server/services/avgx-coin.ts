@@ -1,6 +1,7 @@
 import { avgxCoinTransactions, avgxReserves, pegData, type InsertTransaction, type InsertReserves, type InsertPegData } from "@shared/schema";
 import { storage } from "../storage";
 import { avgxCalculatorService } from "./avgx-calculator";
+import { publicationStateService } from "./publication-state";
 
 export class AvgxCoinService {
   // Get current peg status and reserves
@@ -19,13 +20,21 @@ export class AvgxCoinService {
       backingValue: reserves?.backingValue || "0",
       collateralRatio: reserves?.collateralRatio || "1.0000",
       pegHealth: Math.abs(pegDeviation) < 0.5 ? "healthy" : "needs_rebalance",
+      publicationState: avgxIndex.publication?.state,
       timestamp: new Date().toISOString()
     };
   }
 
+  // Current index for pricing a mint or redeem; throws IndexUnavailableError while frozen or halted
+  private async getUsableAvgx() {
+    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+    publicationStateService.assertUsable();
+    return avgxData;
+  }
+
   // Calculate mint amount for a given USD value
   async calculateMintAmount(usdValue: number) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+    const avgxData = await this.getUsableAvgx();
     const avgxAmount = usdValue / avgxData.avgx_usd;
     
     return {
@@ -33,13 +42,14 @@ export class AvgxCoinService {
       avgxPrice: avgxData.avgx_usd,
       usdValue,
       fee: usdValue * 0.003, // 0.3% fee
-      total: usdValue + (usdValue * 0.003)
+      total: usdValue + (usdValue * 0.003),
+      publicationState: avgxData.publication?.state
     };
   }
 
   // Calculate redeem value for a given AVGX amount
   async calculateRedeemValue(avgxAmount: number) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+    const avgxData = await this.getUsableAvgx();
     const usdValue = avgxAmount * avgxData.avgx_usd;
     
     return {
@@ -47,7 +57,8 @@ export class AvgxCoinService {
       avgxPrice: avgxData.avgx_usd,
       usdValue,
       fee: usdValue * 0.003, // 0.3% fee
-      netValue: usdValue - (usdValue * 0.003)
+      netValue: usdValue - (usdValue * 0.003),
+      publicationState: avgxData.publication?.state
     };
   }
 
@@ -93,7 +104,7 @@ export class AvgxCoinService {
 
   // Simulate trading operations for demo
   async simulateTrade(type: 'mint' | 'redeem', amount: number, chain: string) {
-    const avgxData = await avgxCalculatorService.getCurrentAvgx();
+    const avgxData = await this.getUsableAvgx();
     
     let avgxAmount: number;
     let usdValue: number;
@@ -118,6 +129,7 @@ export class AvgxCoinService {
       usdValue,
       fee,
       avgxPrice: avgxData.avgx_usd,
+      publicationState: avgxData.publication?.state,
       chain,
       status: 'confirmed',
       timestamp: new Date().toISOString()
@@ -0,0 +1,249 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import { DEFAULT_STABILITY_CONFIG, stabilityConfigSchema, type StabilityConfig } from './stability-config';
+import {
+  applyClamp,
+  computeSmoothedValuesFromSummary,
+  summarizeVolatilityWindow,
+  volatilityWindow,
+  type SmoothedHistoryEntry,
+} from './stability-formula';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Every config replays every tick, so bound the total work of one request
+const MAX_TICK_RUNS = 500000;
+
+// The volatility estimate revisits every sample in its window on every tick, so also bound those visits
+const MAX_WINDOW_SAMPLES = 5000000;
+
+// Replays hand the event loop back after this many window samples so publication ticks are not held up
+const YIELD_EVERY_SAMPLES = 100000;
+
+// Metrics use every tick; the series returned per run is thinned to at most this many points
+const MAX_SERIES_POINTS = 2000;
+
+export const backtestRequestSchema = z.object({
+  dataset: z.object({
+    // Defaults to the weights in fiats.json / cryptos.json
+    fiat_weights: z.record(z.number().nonnegative()).optional(),
+    crypto_weights: z.record(z.number().nonnegative()).optional(),
+    ticks: z.array(z.object({
+      timestamp: z.string().datetime(),
+      fiat_rates: z.record(z.number().positive()),     // currency code -> units per USD
+      crypto_prices: z.record(z.number().positive()),  // CoinGecko id -> USD price
+    })).min(2).max(100000),
+  }),
+  configs: z.array(z.object({
+    name: z.string().min(1).max(100),
+    config: stabilityConfigSchema.partial(), // Merged on top of the default config
+  })).min(1).max(20),
+}).refine(
+  request => request.dataset.ticks.length * request.configs.length <= MAX_TICK_RUNS,
+  { message: `Ticks times configs must not exceed ${MAX_TICK_RUNS}`, path: ['configs'] }
+);
+
+export type BacktestRequest = z.infer<typeof backtestRequestSchema>;
+
+export class BacktestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BacktestError';
+  }
+}
+
+export interface BacktestPoint {
+  timestamp: string;
+  avgx: number;
+  raw: number; // sqrt(WF_raw * WC_raw), no smoothing, volatility adjustment or clamp
+  wf_smoothed: number;
+  wc_adjusted: number;
+  volatility_index: number;
+  clamped: boolean;
+}
+
+export interface BacktestMetrics {
+  realized_volatility: number; // Annualized stdev of log returns
+  max_drawdown: number;        // Largest peak-to-trough decline, as a fraction
+  clamp_hits: number;
+  tracking_error: number;      // Annualized stdev of log return differences vs the raw index
+  total_return: number;
+  raw_total_return: number;
+}
+
+export interface BacktestRun {
+  name: string;
+  config: StabilityConfig;
+  metrics: BacktestMetrics;
+  series: BacktestPoint[]; // Every series_step-th tick, plus the last one
+}
+
+export interface BacktestResult {
+  ticks: number;
+  from: string;
+  to: string;
+  series_step: number;
+  runs: BacktestRun[];
+}
+
+function logReturns(values: number[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < values.length; i++) {
+    returns.push(Math.log(values[i] / values[i - 1]));
+  }
+  return returns;
+}
+
+function stdDev(values: number[]): number {
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / values.length);
+}
+
+function maxDrawdown(values: number[]): number {
+  let peak = -Infinity;
+  let worst = 0;
+  for (const value of values) {
+    peak = Math.max(peak, value);
+    worst = Math.max(worst, (peak - value) / peak);
+  }
+  return worst;
+}
+
+function computeMetrics(avgx: number[], raw: number[], clampHits: number, spanMs: number): BacktestMetrics {
+  const avgxReturns = logReturns(avgx);
+  const rawReturns = logReturns(raw);
+
+  // Annualize by the dataset's actual sampling frequency
+  const periodsPerYear = spanMs > 0 ? YEAR_MS / (spanMs / (avgx.length - 1)) : 0;
+  const annualize = Math.sqrt(periodsPerYear);
+
+  return {
+    realized_volatility: stdDev(avgxReturns) * annualize,
+    max_drawdown: maxDrawdown(avgx),
+    clamp_hits: clampHits,
+    tracking_error: stdDev(avgxReturns.map((r, i) => r - rawReturns[i])) * annualize,
+    total_return: avgx[avgx.length - 1] / avgx[0] - 1,
+    raw_total_return: raw[raw.length - 1] / raw[0] - 1,
+  };
+}
+
+/**
+ * Samples the volatility estimate visits over a whole replay: on each tick
+ * the earlier ticks inside the window, plus the one anchoring it
+ */
+function windowSamples(times: number[], windowSeconds: number): number {
+  let total = 0;
+  let first = 0;
+  for (let i = 0; i < times.length; i++) {
+    while (first < i && times[first] <= times[i] - windowSeconds * 1000) first++;
+    total += i - first + (first > 0 ? 1 : 0);
+  }
+  return total;
+}
+
+class BacktestService {
+  /**
+   * Replays a price dataset through the stability formula once per config.
+   * Nothing is read from or written to the live smoothing or index history,
+   * so the same inputs always give the same output.
+   */
+  async run(request: BacktestRequest): Promise<BacktestResult> {
+    const fiatWeights = request.dataset.fiat_weights || await this.loadWeights('fiats.json', 'code');
+    const cryptoWeights = request.dataset.crypto_weights || await this.loadWeights('cryptos.json', 'id');
+
+    const ticks = [...request.dataset.ticks]
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    // Raw baskets do not depend on the config, so compute them once
+    const baskets = ticks.map(tick => ({
+      timestamp: tick.timestamp,
+      wf_raw: Object.entries(tick.fiat_rates).reduce((sum, [code, rate]) => sum + rate * (fiatWeights[code] || 0), 0),
+      wc_raw: Object.entries(tick.crypto_prices).reduce((sum, [id, price]) => sum + price * (cryptoWeights[id] || 0), 0),
+    }));
+
+    if (baskets.some(b => b.wf_raw <= 0 || b.wc_raw <= 0)) {
+      throw new BacktestError('Every tick needs at least one weighted fiat rate and crypto price');
+    }
+
+    const configs = request.configs.map(({ name, config: overrides }) => ({
+      name,
+      config: stabilityConfigSchema.parse({ ...DEFAULT_STABILITY_CONFIG, ...overrides }),
+    }));
+
+    // Long windows over densely sampled ticks cost far more than the tick count suggests
+    const times = ticks.map(tick => new Date(tick.timestamp).getTime());
+    const samples = configs.reduce((sum, { config }) => sum + windowSamples(times, config.volatility_window_seconds), 0);
+    if (samples > MAX_WINDOW_SAMPLES) {
+      throw new BacktestError(
+        `The volatility windows would revisit ${samples} samples, more than ${MAX_WINDOW_SAMPLES}; use fewer ticks or configs, or shorter windows`
+      );
+    }
+
+    const seriesStep = Math.ceil(baskets.length / MAX_SERIES_POINTS);
+    const spanMs = new Date(ticks[ticks.length - 1].timestamp).getTime() - new Date(ticks[0].timestamp).getTime();
+    const raw = baskets.map(b => Math.sqrt(b.wf_raw * b.wc_raw));
+
+    const runs: BacktestRun[] = [];
+    let sinceYield = 0;
+    for (const { name, config } of configs) {
+      let history: SmoothedHistoryEntry[] = [];
+      const avgxValues: number[] = [];
+      const series: BacktestPoint[] = [];
+      let clampHits = 0;
+      let lastAvgx: number | null = null;
+
+      for (let i = 0; i < baskets.length; i++) {
+        const basket = baskets[i];
+        // The formula only looks back over the volatility window
+        history = volatilityWindow(history, basket.timestamp, config);
+        sinceYield += history.length;
+        if (sinceYield >= YIELD_EVERY_SAMPLES) {
+          sinceYield = 0;
+          await new Promise(resolve => setImmediate(resolve));
+        }
+        // Same path as a live tick, which reads a summary of its window
+        const smoothed = computeSmoothedValuesFromSummary(basket.wf_raw, basket.wc_raw, summarizeVolatilityWindow(history), config, basket.timestamp);
+        const unclamped = Math.sqrt(smoothed.wf_smoothed * smoothed.wc_adjusted);
+        const avgx = applyClamp(unclamped, lastAvgx, config);
+
+        history.push({ timestamp: basket.timestamp, wf_smoothed: smoothed.wf_smoothed, wc_smoothed: smoothed.wc_smoothed });
+
+        avgxValues.push(avgx);
+        if (avgx !== unclamped) clampHits++;
+        if (i % seriesStep === 0 || i === baskets.length - 1) {
+          series.push({
+            timestamp: basket.timestamp,
+            avgx,
+            raw: raw[i],
+            wf_smoothed: smoothed.wf_smoothed,
+            wc_adjusted: smoothed.wc_adjusted,
+            volatility_index: smoothed.volatility_index,
+            clamped: avgx !== unclamped,
+          });
+        }
+        lastAvgx = avgx;
+      }
+
+      runs.push({ name, config, metrics: computeMetrics(avgxValues, raw, clampHits, spanMs), series });
+    }
+
+    return {
+      ticks: ticks.length,
+      from: ticks[0].timestamp,
+      to: ticks[ticks.length - 1].timestamp,
+      series_step: seriesStep,
+      runs,
+    };
+  }
+
+  private async loadWeights(filename: string, key: 'code' | 'id'): Promise<Record<string, number>> {
+    const basket = await FileManager.readJson<Array<Record<string, any>>>(filename) || [];
+    return basket.reduce((acc, entry) => {
+      acc[entry[key]] = entry.weight;
+      return acc;
+    }, {} as Record<string, number>);
+  }
+}
+
+export const backtestService = new BacktestService();
@@ -0,0 +1,232 @@
+import { createHash } from 'crypto';
+import { FileManager, unstampFile, type FileWrite } from '../utils/file-manager';
+import { storage, type StorageDump } from '../storage';
+import { getLatestVersions, runDataMigrations, LEGACY_SCHEMA_VERSIONS_FILE, type SchemaVersions } from '../data-migrations';
+import { fiatApiService } from './fiat-api';
+import { cryptoApiService } from './crypto-api';
+import { avgxCalculatorService } from './avgx-calculator';
+import { historyRetentionService } from './history-retention';
+import { indexScheduler } from './index-scheduler';
+import { subIndexService } from './sub-indices';
+import { customIndexService } from './custom-indices';
+
+export const BACKUP_FORMAT = 'avgx-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  created_at: string;
+  checksum: string; // sha256 over { files, storage }
+  files: Record<string, any>; // Contents as stored, schema version stamps included
+  storage: StorageDump;
+}
+
+// deleted: a current data file the archive does not contain
+export type FileRestoreStatus = 'created' | 'updated' | 'unchanged' | 'deleted';
+
+export interface RestoreReport {
+  dry_run: boolean;
+  checksum: string;
+  created_at: string;
+  files: Array<{ filename: string; status: FileRestoreStatus }>;
+  storage: Record<keyof StorageDump, { current: number; archive: number }>;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const STORAGE_TABLES: Array<keyof StorageDump> = [
+  'users', 'contacts', 'avgxIndex', 'fiatRates', 'cryptoPrices', 'transactions', 'reserves',
+];
+
+// Row fields that JSON turns into strings and must be revived as Dates
+const DATE_FIELDS = ['timestamp', 'createdAt'];
+
+const SAFE_FILENAME = /^[\w.-]+\.json$/;
+
+function computeChecksum(files: Record<string, any>, dump: StorageDump): string {
+  return createHash('sha256').update(JSON.stringify({ files, storage: dump })).digest('hex');
+}
+
+function reviveRows<T extends object>(rows: T[]): T[] {
+  return rows.map(row => {
+    const copy = { ...row } as Record<string, unknown>;
+    for (const field of DATE_FIELDS) {
+      const value = copy[field];
+      if (typeof value === 'string') copy[field] = new Date(value);
+    }
+    return copy as T;
+  });
+}
+
+function reviveDates(dump: StorageDump): StorageDump {
+  return {
+    users: reviveRows(dump.users),
+    contacts: reviveRows(dump.contacts),
+    avgxIndex: reviveRows(dump.avgxIndex),
+    fiatRates: reviveRows(dump.fiatRates),
+    cryptoPrices: reviveRows(dump.cryptoPrices),
+    transactions: reviveRows(dump.transactions),
+    reserves: reviveRows(dump.reserves),
+  };
+}
+
+/**
+ * Schema version of each file in an archive, from the files' stamps or, for
+ * archives taken before files were stamped, the legacy versions file
+ */
+function archiveSchemaVersions(files: Record<string, any>): SchemaVersions {
+  const versions: SchemaVersions = { ...(files[LEGACY_SCHEMA_VERSIONS_FILE] || {}) };
+  for (const [filename, contents] of Object.entries(files)) {
+    const { schemaVersion } = unstampFile(contents);
+    if (schemaVersion !== undefined) versions[filename] = schemaVersion;
+  }
+  return versions;
+}
+
+class BackupService {
+  /**
+   * Exports every data file and the full storage contents into one checksummed archive
+   */
+  async createArchive(): Promise<BackupArchive> {
+    const files: Record<string, any> = {};
+    for (const filename of await FileManager.listJsonFiles()) {
+      const contents = await FileManager.readRawJson(filename);
+      if (contents !== null) files[filename] = contents;
+    }
+
+    // Round-trip through JSON so the checksum matches what a reader of the archive sees
+    const dump: StorageDump = JSON.parse(JSON.stringify(await storage.exportAll()));
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      created_at: new Date().toISOString(),
+      checksum: computeChecksum(files, dump),
+      files,
+      storage: dump,
+    };
+  }
+
+  /**
+   * Checks the archive's structure, checksum and schema versions
+   */
+  verifyArchive(input: any): BackupArchive {
+    if (!input || input.format !== BACKUP_FORMAT) {
+      throw new BackupError('Not an AVGX backup archive');
+    }
+    if (input.version !== BACKUP_VERSION) {
+      throw new BackupError(`Unsupported backup version ${input.version}`);
+    }
+    if (!input.files || typeof input.files !== 'object' || !input.storage || typeof input.storage !== 'object') {
+      throw new BackupError('Backup archive is missing files or storage');
+    }
+
+    for (const filename of Object.keys(input.files)) {
+      if (!SAFE_FILENAME.test(filename)) {
+        throw new BackupError(`Invalid file name in archive: ${filename}`);
+      }
+    }
+    for (const table of STORAGE_TABLES) {
+      if (!Array.isArray(input.storage[table])) {
+        throw new BackupError(`Backup archive is missing storage table ${table}`);
+      }
+    }
+
+    if (computeChecksum(input.files, input.storage) !== input.checksum) {
+      throw new BackupError('Backup checksum mismatch, archive is corrupt or was modified');
+    }
+
+    const latest = getLatestVersions();
+    for (const [file, version] of Object.entries(archiveSchemaVersions(input.files))) {
+      if (latest[file] !== undefined && version > latest[file]) {
+        throw new BackupError(`${file} in archive is at schema version ${version}, newer than supported ${latest[file]}`);
+      }
+    }
+
+    return input as BackupArchive;
+  }
+
+  /**
+   * Restores an archive so the data directory matches it exactly. Storage is
+   * replaced first, then every data file is written and every file the
+   * archive lacks is deleted, as one journaled batch; if the batch fails the
+   * previous storage contents are put back. Publication is paused meanwhile
+   * and the services drop their in-memory state afterwards. With dryRun only
+   * the report is produced.
+   */
+  async restore(input: any, options: { dryRun?: boolean } = {}): Promise<RestoreReport> {
+    const archive = this.verifyArchive(input);
+    const dryRun = options.dryRun ?? false;
+
+    const archiveVersions = archiveSchemaVersions(archive.files);
+    const latest = getLatestVersions();
+    const writes: FileWrite[] = [];
+    const files: RestoreReport['files'] = [];
+    for (const [filename, contents] of Object.entries(archive.files)) {
+      // Versions now live in each file's stamp
+      if (filename === LEGACY_SCHEMA_VERSIONS_FILE) continue;
+
+      const current = await FileManager.exists(filename) ? await FileManager.readRawJson(filename) : null;
+      const status: FileRestoreStatus = current === null
+        ? 'created'
+        : JSON.stringify(current) === JSON.stringify(contents) ? 'unchanged' : 'updated';
+      files.push({ filename, status });
+
+      // Keep the archive's version so migrations pick up from there rather than the latest being assumed
+      const { data } = unstampFile(contents);
+      const schemaVersion = latest[filename] !== undefined ? archiveVersions[filename] ?? 0 : undefined;
+      writes.push({ filename, data, schemaVersion });
+    }
+    const deletes = (await FileManager.listJsonFiles())
+      .filter(filename => !(filename in archive.files) || filename === LEGACY_SCHEMA_VERSIONS_FILE);
+    for (const filename of deletes) {
+      files.push({ filename, status: 'deleted' });
+    }
+
+    const currentDump = await storage.exportAll();
+    const storageReport = {} as RestoreReport['storage'];
+    for (const table of STORAGE_TABLES) {
+      storageReport[table] = { current: currentDump[table].length, archive: archive.storage[table].length };
+    }
+
+    if (!dryRun) {
+      const wasRunning = await indexScheduler.pause();
+      try {
+        await storage.importAll(reviveDates(archive.storage));
+        try {
+          await FileManager.writeMany(writes, deletes);
+        } catch (error) {
+          await storage.importAll(currentDump);
+          throw error;
+        }
+
+        // Older archives are brought up to the current schema, then everything is reloaded from disk
+        await runDataMigrations();
+        await Promise.all([fiatApiService.initialize(), cryptoApiService.initialize()]);
+        await avgxCalculatorService.reset();
+        historyRetentionService.reset();
+        subIndexService.reset();
+        customIndexService.reset();
+        console.log(`Restored backup from ${archive.created_at} (${writes.length} files, ${deletes.length} deleted)`);
+      } finally {
+        if (wasRunning) await indexScheduler.resume();
+      }
+    }
+
+    return {
+      dry_run: dryRun,
+      checksum: archive.checksum,
+      created_at: archive.created_at,
+      files,
+      storage: storageReport,
+    };
+  }
+}
+
+export const backupService = new BackupService();
@@ -0,0 +1,188 @@
+import { FileManager } from '../utils/file-manager';
+import { HistoryRetentionService, historyTiers } from './history-retention';
+import type { HistoryEntry } from './avgx-calculator';
+import { cryptoLegMethodology, fiatLegMethodology, type IndexMethodology } from './index-methodology';
+import { computeIndexStatistics, type IndexStatistics } from './index-statistics';
+import { linkDivisors, type DivisorAdjustment } from './index-divisor';
+import {
+  buildCalculationRecord,
+  summarizeSmoothedWindow,
+  UNIT_DIVISORS,
+  type CalculationInputs,
+  type CalculationRecord,
+  type CryptoInput,
+  type FiatInput,
+  type IndexDivisors,
+} from './calculation-record';
+import { volatilityWindow, type SmoothedHistoryEntry } from './stability-formula';
+
+// Which value of the stability pipeline the index publishes
+export type BasketIndexOutput = 'avgx' | 'wf' | 'wc';
+
+export interface BasketIndexDefinition {
+  id: string;
+  name: string;
+  description: string;
+  output: BasketIndexOutput;
+  fiat: Array<{ code: string; weight: number }>;
+  crypto: Array<{ id: string; weight: number }>;
+}
+
+export interface BasketIndexValue {
+  id: string;
+  name: string;
+  description: string;
+  value: number;
+  wf_value: number;
+  wc_value: number;
+  timestamp: string;
+  calculation_hash: string;
+  statistics: IndexStatistics;
+  breakdown: {
+    fiat: FiatInput[];
+    crypto: CryptoInput[];
+    divisors: IndexDivisors;
+    divisor_adjustments: DivisorAdjustment[];
+    missing: string[]; // Constituents without a price in the tick, left out of the value
+  };
+}
+
+// Only scheduler ticks publish an index, so a new one has no value until the next tick
+export class IndexNotPublishedError extends Error {
+  constructor(id: string) {
+    super(`Index ${id} has not been published yet, it will be on the next scheduled tick`);
+    this.name = 'IndexNotPublishedError';
+  }
+}
+
+interface BasketIndexState {
+  smoothed_history: Array<SmoothedHistoryEntry & { volatility_index: number; wc_adjusted: number }>;
+  last_record: CalculationRecord | null;
+  adjustments: DivisorAdjustment[];
+}
+
+const EMPTY_STATE: BasketIndexState = { smoothed_history: [], last_record: null, adjustments: [] };
+
+/**
+ * One published index series: its smoothing state, chain-linking divisors
+ * and tiered history live in their own files under the given prefix, so
+ * nothing is shared with the flagship index or other series.
+ */
+export class BasketIndexSeries {
+  readonly retention: HistoryRetentionService;
+  private readonly stateFile: string;
+
+  constructor(readonly filePrefix: string) {
+    this.retention = new HistoryRetentionService(historyTiers(filePrefix));
+    this.stateFile = `${filePrefix}_state.json`;
+  }
+
+  /**
+   * Computes one tick at the prices, time and stability config of a flagship
+   * record and advances the series state
+   */
+  async publish(definition: BasketIndexDefinition, tick: CalculationRecord, methodology: IndexMethodology): Promise<CalculationRecord> {
+    const { timestamp, config, inputs: prices } = tick;
+    const state = await this.getState();
+    const latest = await this.retention.getLatest();
+    const selected = definition.output === 'wf' ? fiatLegMethodology
+      : definition.output === 'wc' ? cryptoLegMethodology
+      : methodology;
+
+    const inputs: CalculationInputs = {
+      fiat: definition.fiat.flatMap(({ code, weight }) => {
+        const priced = prices.fiat.find(f => f.code === code);
+        return priced ? [{ ...priced, weight }] : [];
+      }),
+      crypto: definition.crypto.flatMap(({ id, weight }) => {
+        const priced = prices.crypto.find(c => c.id === id);
+        return priced ? [{ ...priced, weight }] : [];
+      }),
+      fiat_snapshot_id: prices.fiat_snapshot_id,
+      crypto_snapshot_id: prices.crypto_snapshot_id,
+      smoothed_window: summarizeSmoothedWindow(volatilityWindow(state.smoothed_history, timestamp, config.values)),
+      last_avgx: latest ? latest.avgx_usd : null,
+    };
+    if (inputs.fiat.length === 0 || inputs.crypto.length === 0) {
+      throw new Error(`Index ${definition.id} has no priced fiat or crypto constituents`);
+    }
+
+    const link = linkDivisors(timestamp, inputs, state.last_record, config, selected);
+    inputs.divisors = link.divisors;
+
+    const record = buildCalculationRecord(timestamp, inputs, config, selected);
+    const { intermediates } = record;
+
+    const smoothedHistory = [...state.smoothed_history, {
+      timestamp,
+      wf_smoothed: intermediates.wf_smoothed,
+      wc_smoothed: intermediates.wc_smoothed,
+      volatility_index: intermediates.volatility_index,
+      wc_adjusted: intermediates.wc_adjusted,
+    }];
+    const windowed = volatilityWindow(smoothedHistory, timestamp, config.values);
+    const nextState: BasketIndexState = {
+      smoothed_history: windowed.length >= 100 ? windowed : smoothedHistory.slice(-100),
+      last_record: record,
+      adjustments: link.adjustment ? [...state.adjustments, link.adjustment] : state.adjustments,
+    };
+
+    // Every tick goes to the raw tier, which is also the clamp reference above
+    const tierWrites = await this.retention.prepareRecord({
+      timestamp,
+      avgx_usd: intermediates.avgx_final,
+      wf_value: intermediates.wf_smoothed,
+      wc_value: intermediates.wc_adjusted,
+    });
+
+    // State and history advance together, as one journaled write per series and tick
+    await FileManager.writeMany([{ filename: this.stateFile, data: nextState }, ...tierWrites]);
+
+    return record;
+  }
+
+  async getLastRecord(): Promise<CalculationRecord | null> {
+    return (await this.getState()).last_record;
+  }
+
+  async getHistory(from: Date, to: Date = new Date()): Promise<HistoryEntry[]> {
+    const { entries } = await this.retention.getRange(from, to);
+    return entries;
+  }
+
+  /**
+   * Latest value with statistics and breakdown, null before the first tick
+   */
+  async describe(definition: BasketIndexDefinition): Promise<BasketIndexValue | null> {
+    const state = await this.getState();
+    const record = state.last_record;
+    if (!record) return null;
+
+    const { intermediates } = record;
+    const priced = new Set([...record.inputs.fiat.map(f => f.code), ...record.inputs.crypto.map(c => c.id)]);
+
+    return {
+      id: definition.id,
+      name: definition.name,
+      description: definition.description,
+      value: intermediates.avgx_final,
+      wf_value: intermediates.wf_smoothed,
+      wc_value: intermediates.wc_adjusted,
+      timestamp: record.timestamp,
+      calculation_hash: record.hash,
+      statistics: await computeIndexStatistics(intermediates.avgx_final, record.timestamp, this.retention),
+      breakdown: {
+        fiat: record.inputs.fiat,
+        crypto: record.inputs.crypto,
+        divisors: record.inputs.divisors ?? UNIT_DIVISORS,
+        divisor_adjustments: state.adjustments,
+        missing: [...definition.fiat.map(f => f.code), ...definition.crypto.map(c => c.id)].filter(key => !priced.has(key)),
+      },
+    };
+  }
+
+  private async getState(): Promise<BasketIndexState> {
+    if (!await FileManager.exists(this.stateFile)) return EMPTY_STATE;
+    return await FileManager.readJson<BasketIndexState>(this.stateFile) || EMPTY_STATE;
+  }
+}
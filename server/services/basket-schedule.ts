@@ -0,0 +1,256 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import { fiatApiService, type FiatConfig } from './fiat-api';
+import { cryptoApiService, type CryptoConfig } from './crypto-api';
+
+export const BASKET_SCHEDULE_FILE = 'basket_schedule.json';
+
+const fiatEntrySchema = z.object({
+  code: z.string().regex(/^[A-Z]{3}$/),
+  name: z.string().min(1),
+  weight: z.number().nonnegative(),
+}).strict();
+
+const cryptoEntrySchema = z.object({
+  id: z.string().min(1),        // CoinGecko id
+  symbol: z.string().min(1).max(10),
+  name: z.string().min(1),
+  weight: z.number().nonnegative(),
+}).strict();
+
+function uniqueBy<T>(key: keyof T) {
+  return (entries: T[]) => new Set(entries.map(e => e[key])).size === entries.length;
+}
+
+function positiveTotal(entries: Array<{ weight: number }>) {
+  return entries.reduce((sum, e) => sum + e.weight, 0) > 0;
+}
+
+export const basketProposalSchema = z.object({
+  // A basket left out keeps whatever is in effect when the version switches over
+  fiats: z.array(fiatEntrySchema).min(1)
+    .refine(uniqueBy('code'), 'Duplicate currency code')
+    .refine(positiveTotal, 'Fiat weights must not all be zero')
+    .optional(),
+  cryptos: z.array(cryptoEntrySchema).min(1)
+    .refine(uniqueBy('id'), 'Duplicate crypto id')
+    .refine(positiveTotal, 'Crypto weights must not all be zero')
+    .optional(),
+  effective_from: z.string().datetime(),
+  reason: z.string().trim().min(3).max(500),
+}).strict().refine(p => p.fiats || p.cryptos, 'Propose a fiat basket, a crypto basket or both');
+
+export const basketReviewSchema = z.object({
+  reason: z.string().trim().min(3).max(500).optional(),
+}).strict();
+
+export type BasketProposal = z.infer<typeof basketProposalSchema>;
+
+// proposed -> approved -> active -> superseded, or proposed -> rejected, or
+// proposed -> expired when effective_from passes before anyone reviewed it
+export type BasketVersionStatus = 'proposed' | 'approved' | 'rejected' | 'expired' | 'active' | 'superseded';
+
+export interface BasketVersion {
+  version: number;
+  status: BasketVersionStatus;
+  fiats?: FiatConfig[];
+  cryptos?: CryptoConfig[];
+  effective_from: string;
+  reason: string;
+  created_at: string;
+  created_by: string;
+  reviewed_at?: string;
+  reviewed_by?: string;
+  review_reason?: string;
+  activated_at?: string; // When the scheduler actually switched the basket over
+}
+
+export interface BasketSchedule {
+  current: { fiats: FiatConfig[]; cryptos: CryptoConfig[]; version: number | null };
+  upcoming: BasketVersion[]; // Proposed or approved, oldest effective date first
+  past: BasketVersion[];     // Activated, most recent first
+  rejected: BasketVersion[];
+  expired: BasketVersion[];  // Never reviewed before their effective date
+}
+
+export class BasketScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BasketScheduleError';
+  }
+}
+
+class BasketScheduleService {
+  // Every change to the schedule runs through this chain, so a switch-over
+  // never interleaves with an approval of the same version
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private serialize<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn, fn);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async getVersions(): Promise<BasketVersion[]> {
+    const versions = await FileManager.readJson<BasketVersion[]>(BASKET_SCHEDULE_FILE) || [];
+    return versions.sort((a, b) => a.version - b.version);
+  }
+
+  async getSchedule(): Promise<BasketSchedule> {
+    const [versions, fiats, cryptos] = await Promise.all([
+      this.getVersions(),
+      FileManager.readJson<FiatConfig[]>('fiats.json'),
+      FileManager.readJson<CryptoConfig[]>('cryptos.json'),
+    ]);
+
+    const byEffective = (a: BasketVersion, b: BasketVersion) =>
+      new Date(a.effective_from).getTime() - new Date(b.effective_from).getTime();
+
+    return {
+      current: {
+        fiats: fiats || [],
+        cryptos: cryptos || [],
+        version: versions.find(v => v.status === 'active')?.version ?? null,
+      },
+      // Includes versions already due; the next scheduler tick activates or expires them
+      upcoming: versions
+        .filter(v => v.status === 'proposed' || v.status === 'approved')
+        .sort(byEffective),
+      past: versions
+        .filter(v => v.status === 'active' || v.status === 'superseded')
+        .sort((a, b) => byEffective(b, a)),
+      rejected: versions.filter(v => v.status === 'rejected'),
+      expired: versions.filter(v => v.status === 'expired'),
+    };
+  }
+
+  /**
+   * Stores a basket version for review. It only takes effect once approved
+   * and its effective timestamp has been reached.
+   */
+  async propose(proposal: BasketProposal, actor: string): Promise<BasketVersion> {
+    const now = new Date();
+    if (new Date(proposal.effective_from).getTime() <= now.getTime()) {
+      throw new BasketScheduleError('effective_from must be in the future');
+    }
+
+    return this.serialize(async () => {
+      let created: BasketVersion | undefined;
+      await FileManager.update<BasketVersion[]>(BASKET_SCHEDULE_FILE, current => {
+        const versions = current || [];
+        created = {
+          version: versions.reduce((max, v) => Math.max(max, v.version), 0) + 1,
+          status: 'proposed',
+          ...(proposal.fiats && { fiats: proposal.fiats }),
+          ...(proposal.cryptos && { cryptos: proposal.cryptos }),
+          effective_from: new Date(proposal.effective_from).toISOString(),
+          reason: proposal.reason,
+          created_at: now.toISOString(),
+          created_by: actor,
+        };
+        return [...versions, created];
+      });
+
+      console.log(`Basket v${created!.version} proposed by ${actor}, effective ${created!.effective_from}: ${proposal.reason}`);
+      return created!;
+    });
+  }
+
+  /**
+   * Approves a proposed version. The approver must not be the proposer, and
+   * a version whose effective time has passed has to be proposed again.
+   */
+  async approve(version: number, actor: string, reason?: string): Promise<BasketVersion> {
+    return this.review(version, actor, 'approved', reason);
+  }
+
+  async reject(version: number, actor: string, reason?: string): Promise<BasketVersion> {
+    return this.review(version, actor, 'rejected', reason);
+  }
+
+  /**
+   * Switches to the latest approved version whose effective time has been
+   * reached, and expires proposed versions nobody reviewed in time. The
+   * basket files and the schedule are written as one batch. Returns the
+   * activated version, or null if nothing was due.
+   */
+  async applyDue(now: Date = new Date()): Promise<BasketVersion | null> {
+    const activated = await this.serialize(async () => {
+      const versions = await this.getVersions();
+      const expired = versions.filter(v => v.status === 'proposed' && new Date(v.effective_from) <= now);
+      const due = versions
+        .filter(v => v.status === 'approved' && new Date(v.effective_from) <= now)
+        .sort((a, b) => new Date(a.effective_from).getTime() - new Date(b.effective_from).getTime() || a.version - b.version);
+      if (due.length === 0 && expired.length === 0) return null;
+
+      // Apply every due version in order so a later crypto-only change keeps an earlier fiat change
+      const target = due.length > 0 ? due[due.length - 1] : null;
+      const fiats = [...due].reverse().find(v => v.fiats)?.fiats;
+      const cryptos = [...due].reverse().find(v => v.cryptos)?.cryptos;
+
+      const updated = versions.map((v): BasketVersion => {
+        if (expired.includes(v)) return { ...v, status: 'expired' };
+        if (!target) return v;
+        if (v === target) return { ...v, status: 'active', activated_at: now.toISOString() };
+        if (v.status === 'active' || due.includes(v)) return { ...v, status: 'superseded' };
+        return v;
+      });
+
+      await FileManager.writeMany([
+        { filename: BASKET_SCHEDULE_FILE, data: updated },
+        ...(fiats ? [{ filename: 'fiats.json', data: fiats }] : []),
+        ...(cryptos ? [{ filename: 'cryptos.json', data: cryptos }] : []),
+      ]);
+      for (const v of expired) {
+        console.log(`Basket v${v.version} expired unreviewed (was scheduled for ${v.effective_from})`);
+      }
+      return target && updated.find(v => v.version === target.version)!;
+    });
+
+    if (activated) {
+      await Promise.all([fiatApiService.initialize(), cryptoApiService.initialize()]);
+      console.log(`Basket v${activated.version} is now in effect (scheduled for ${activated.effective_from})`);
+    }
+    return activated;
+  }
+
+  private async review(version: number, actor: string, status: 'approved' | 'rejected', reason?: string): Promise<BasketVersion> {
+    return this.serialize(async () => {
+      const now = new Date();
+      let reviewed: BasketVersion | undefined;
+
+      await FileManager.update<BasketVersion[]>(BASKET_SCHEDULE_FILE, current => {
+        const versions = current || [];
+        const target = versions.find(v => v.version === version);
+        if (!target) {
+          throw new BasketScheduleError(`Basket version ${version} not found`);
+        }
+        if (target.status !== 'proposed') {
+          throw new BasketScheduleError(`Basket version ${version} is ${target.status}, only proposed versions can be reviewed`);
+        }
+        if (status === 'approved') {
+          if (target.created_by === actor) {
+            throw new BasketScheduleError('A basket version must be approved by someone other than its proposer');
+          }
+          if (new Date(target.effective_from) <= now) {
+            throw new BasketScheduleError('effective_from has passed, propose the basket again');
+          }
+        }
+
+        reviewed = {
+          ...target,
+          status,
+          reviewed_at: now.toISOString(),
+          reviewed_by: actor,
+          ...(reason && { review_reason: reason }),
+        };
+        return versions.map(v => v.version === version ? reviewed! : v);
+      });
+
+      console.log(`Basket v${version} ${status} by ${actor}`);
+      return reviewed!;
+    });
+  }
+}
+
+export const basketScheduleService = new BasketScheduleService();
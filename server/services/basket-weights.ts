@@ -0,0 +1,81 @@
+// Helpers shared by the crypto and fiat basket weighting engines
+
+const WEIGHT_DECIMALS = 4; // Matches the fiat_rates / crypto_prices weight precision
+
+export class WeightBoundsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WeightBoundsError';
+  }
+}
+
+export function roundWeight(weight: number): number {
+  const factor = Math.pow(10, WEIGHT_DECIMALS);
+  return Math.round(weight * factor) / factor;
+}
+
+/**
+ * Scales shares to sum to 1 with every weight inside [floor, cap]. Assets that
+ * hit a bound are fixed there and the rest is shared out in proportion to the
+ * remaining assets' shares, until no bound is violated.
+ */
+export function boundedWeights(shares: number[], floors: number[], caps: number[]): number[] {
+  const n = shares.length;
+  if (floors.reduce((sum, f) => sum + f, 0) > 1 + 1e-9) {
+    throw new WeightBoundsError('Minimum weights of the eligible assets add up to more than 100%');
+  }
+  if (caps.reduce((sum, c) => sum + c, 0) < 1 - 1e-9) {
+    throw new WeightBoundsError('Weight caps of the eligible assets add up to less than 100%');
+  }
+
+  const fixed: Array<number | null> = new Array(n).fill(null);
+  let weights = [...shares];
+
+  for (let iteration = 0; iteration <= n; iteration++) {
+    const free = shares.map((_, i) => i).filter(i => fixed[i] === null);
+    const remaining = 1 - fixed.reduce<number>((sum, w) => sum + (w ?? 0), 0);
+    const freeTotal = free.reduce((sum, i) => sum + shares[i], 0);
+
+    weights = shares.map((share, i) => fixed[i] ?? (freeTotal > 0 ? remaining * share / freeTotal : 0));
+
+    // Caps first, since raising the rest can only push more assets over their cap
+    const over = free.filter(i => weights[i] > caps[i]);
+    if (over.length > 0) {
+      over.forEach(i => { fixed[i] = caps[i]; });
+      continue;
+    }
+    const under = free.filter(i => weights[i] < floors[i]);
+    if (under.length > 0) {
+      under.forEach(i => { fixed[i] = floors[i]; });
+      continue;
+    }
+    break;
+  }
+
+  return weights;
+}
+
+/**
+ * Rounds to the stored precision and puts the rounding residual on the largest
+ * weights that stay inside [floor, cap], one unit of precision at a time, so
+ * the basket still sums to exactly 1
+ */
+export function roundWeights(weights: number[], floors: number[], caps: number[]): number[] {
+  const rounded = weights.map(roundWeight);
+  const unit = Math.pow(10, -WEIGHT_DECIMALS);
+  const byWeight = rounded.map((_, i) => i).sort((a, b) => rounded[b] - rounded[a]);
+
+  let units = Math.round((1 - rounded.reduce((sum, w) => sum + w, 0)) / unit);
+  while (units !== 0) {
+    const step = Math.sign(units) * unit;
+    const target = byWeight.find(i => step > 0
+      ? rounded[i] + step <= caps[i] + 1e-9
+      : rounded[i] + step >= floors[i] - 1e-9);
+    // Only when the bounds leave no room at this precision
+    if (target === undefined) break;
+
+    rounded[target] = roundWeight(rounded[target] + step);
+    units -= Math.sign(units);
+  }
+  return rounded;
+}
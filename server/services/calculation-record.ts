@@ -0,0 +1,194 @@
+import { createHash } from 'crypto';
+import { getMethodology, type IndexMethodology, type MethodologyInfo } from './index-methodology';
+import type { StabilityConfig } from './stability-config';
+import {
+  applyClamp,
+  computeSmoothedValues,
+  computeSmoothedValuesFromSummary,
+  summarizeVolatilityWindow,
+  type SmoothedHistoryEntry,
+  type VolatilityWindowSummary,
+} from './stability-formula';
+
+export interface FiatInput {
+  code: string;
+  name: string;
+  rate: number;   // Units per USD
+  weight: number;
+}
+
+export interface CryptoInput {
+  id: string;
+  symbol: string;
+  name: string;
+  price: number;  // USD
+  weight: number;
+}
+
+// Chain-linking divisors; basket weights are divided by the leg divisors and
+// the methodology output by the index divisor, see index-divisor.ts
+export interface IndexDivisors {
+  fiat: number;
+  crypto: number;
+  index: number;
+}
+
+export const UNIT_DIVISORS: IndexDivisors = { fiat: 1, crypto: 1, index: 1 };
+
+// EWMA state over the volatility window, summarized so a record stays small
+// however long the window is
+export interface SmoothedWindow extends VolatilityWindowSummary {
+  digest: string; // sha256 over the summarized entries, to match them against the smoothed history
+}
+
+// Everything the index value depends on, captured at publication time
+export interface CalculationInputs {
+  fiat: FiatInput[];
+  crypto: CryptoInput[];
+  fiat_snapshot_id: string | null;
+  crypto_snapshot_id: string | null;
+  smoothed_window?: SmoothedWindow;           // EWMA state over the volatility window
+  smoothed_history?: SmoothedHistoryEntry[];  // Raw window, on records from before it was summarized
+  last_avgx: number | null;                   // Previous published value, for the clamp
+  divisors?: IndexDivisors;                   // Absent on records from before chain-linking
+}
+
+export interface CalculationIntermediates {
+  wf_raw: number;
+  wc_raw: number;
+  wf_smoothed: number;
+  wc_smoothed: number;
+  volatility_index: number;
+  wc_adjusted: number;
+  avgx_unclamped: number;
+  avgx_final: number;
+}
+
+export interface CalculationRecord {
+  timestamp: string;
+  inputs: CalculationInputs;
+  intermediates: CalculationIntermediates;
+  config: {
+    version: number;
+    effective_from: string;
+    values: StabilityConfig;
+  };
+  methodology: MethodologyInfo;
+  hash: string; // sha256 over every other field, see hashCalculationRecord
+}
+
+/**
+ * JSON with object keys sorted, so equal records always serialize identically
+ */
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value !== null && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value as any).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * Summarizes the volatility window a tick reads into calculation inputs
+ */
+export function summarizeSmoothedWindow(history: SmoothedHistoryEntry[]): SmoothedWindow {
+  const entries = history.map(({ timestamp, wf_smoothed, wc_smoothed }) => ({ timestamp, wf_smoothed, wc_smoothed }));
+  return {
+    ...summarizeVolatilityWindow(entries),
+    digest: createHash('sha256').update(canonicalJson(entries)).digest('hex'),
+  };
+}
+
+export function hashCalculationRecord(record: Omit<CalculationRecord, 'hash'>): string {
+  const { timestamp, inputs, intermediates, config, methodology } = record;
+  return createHash('sha256')
+    .update(canonicalJson({ timestamp, inputs, intermediates, config, methodology }))
+    .digest('hex');
+}
+
+/**
+ * Runs the index pipeline over the captured inputs and seals the result into
+ * a frozen, hashed record. This is the only place the index value is computed.
+ */
+export function buildCalculationRecord(
+  timestamp: string,
+  inputs: CalculationInputs,
+  config: CalculationRecord['config'],
+  methodology: IndexMethodology
+): CalculationRecord {
+  // Raw weighted baskets, linked to the level of the previous baskets
+  const divisors = inputs.divisors ?? UNIT_DIVISORS;
+  const fiat = inputs.fiat.map(f => ({ ...f, weight: f.weight / divisors.fiat }));
+  const crypto = inputs.crypto.map(c => ({ ...c, weight: c.weight / divisors.crypto }));
+  const wfRaw = fiat.reduce((sum, f) => sum + (f.rate * f.weight), 0);
+  const wcRaw = crypto.reduce((sum, c) => sum + (c.price * c.weight), 0);
+
+  const smoothed = inputs.smoothed_window
+    ? computeSmoothedValuesFromSummary(wfRaw, wcRaw, inputs.smoothed_window, config.values, timestamp)
+    : computeSmoothedValues(wfRaw, wcRaw, inputs.smoothed_history ?? [], config.values, timestamp);
+
+  // AVGX from the methodology, e.g. sqrt(WF_smoothed * WC_adjusted)
+  const avgxUnclamped = methodology.compute({
+    fiat,
+    crypto,
+    wf_raw: wfRaw,
+    wc_raw: wcRaw,
+    ...smoothed
+  }) / divisors.index;
+
+  const avgxFinal = methodology.applyClamp
+    ? applyClamp(avgxUnclamped, inputs.last_avgx, config.values)
+    : avgxUnclamped;
+
+  const record = {
+    timestamp,
+    inputs,
+    intermediates: {
+      wf_raw: wfRaw,
+      wc_raw: wcRaw,
+      ...smoothed,
+      avgx_unclamped: avgxUnclamped,
+      avgx_final: avgxFinal,
+    },
+    config,
+    methodology: { id: methodology.id, version: methodology.version },
+  };
+
+  // Round-trip through JSON so the frozen record is exactly what gets stored
+  const sealed: Omit<CalculationRecord, 'hash'> = JSON.parse(JSON.stringify(record));
+  return deepFreeze({ ...sealed, hash: hashCalculationRecord(sealed) });
+}
+
+/**
+ * Recomputes a stored record from its inputs. The record is reproducible when
+ * the hash is intact and the replay gives the same intermediates.
+ */
+export function verifyCalculationRecord(record: CalculationRecord): { hash_valid: boolean; reproducible: boolean } {
+  const hashValid = hashCalculationRecord(record) === record.hash;
+
+  let reproducible = false;
+  try {
+    const methodology = getMethodology(record.methodology.id);
+    if (methodology.version === record.methodology.version) {
+      const replay = buildCalculationRecord(record.timestamp, record.inputs, record.config, methodology);
+      reproducible = replay.hash === record.hash;
+    }
+  } catch (error) {
+    console.error('Failed to replay calculation record:', error);
+  }
+
+  return { hash_valid: hashValid, reproducible };
+}
@@ -1,7 +1,11 @@
+import { randomUUID } from 'crypto';
 import { FileManager } from '../utils/file-manager';
 import { withRetry } from '../utils/retry';
+import { storage } from '../storage';
+import { priceGuardService, priceFeedStatus, type PriceFeedStatus } from './price-guard';
+import { cryptoPriceConsensusService } from './crypto-price-consensus';
 
-interface CryptoConfig {
+export interface CryptoConfig {
   id: string;
   symbol: string;
   name: string;
@@ -13,22 +17,17 @@ interface CryptoData extends CryptoConfig {
   marketCap?: number;
 }
 
-interface CoinGeckoResponse {
-  [key: string]: {
-    usd: number;
-    usd_market_cap?: number;
-    usd_24h_change?: number;
-  };
-}
-
 class CryptoApiService {
   private cachedPrices: CryptoData[] = [];
   private cryptoConfig: CryptoConfig[] = [];
   private lastFetch: Date | null = null;
+  private snapshotId: string | null = null;
+  private feedStatus: PriceFeedStatus = { provider_ok: false, stale: [], stale_weight: 1, updated_at: null };
   private readonly CACHE_DURATION = 60000; // 1 minute
 
   async initialize(): Promise<void> {
     this.cryptoConfig = await FileManager.readJson<CryptoConfig[]>('cryptos.json') || [];
+    this.lastFetch = null; // Cached prices carry the previous weights and constituents
     console.log(`Loaded ${this.cryptoConfig.length} cryptocurrencies from config`);
   }
 
@@ -54,31 +53,24 @@ class CryptoApiService {
       const baseline = await FileManager.readJson<any>('baseline.json');
       
       try {
-        const coinIds = this.cryptoConfig.map(c => c.id).join(',');
-        const response = await fetch(
-          `https://api.coingecko.com/api/v3/simple/price?ids=${coinIds}&vs_currencies=usd&include_market_cap=true&include_24hr_change=true`
-        );
+        // Cross-provider consensus; assets without a quorum are missing
+        const { prices } = await cryptoPriceConsensusService.refresh(this.cryptoConfig);
 
-        if (!response.ok) {
-          throw new Error(`CoinGecko API error: ${response.status} ${response.statusText}`);
-        }
-
-        const data: CoinGeckoResponse = await response.json();
-        
-        if (!data || typeof data !== 'object') {
-          throw new Error('Invalid CoinGecko response structure');
-        }
+        // Quarantined prices fall back to the baseline like missing ones
+        const { accepted } = await priceGuardService.screen('crypto', Object.fromEntries(
+          Object.entries(prices).map(([id, consensus]) => [id, consensus.price])
+        ), baseline?.crypto_prices);
 
         this.cachedPrices = [];
         const missingCryptos: string[] = [];
 
         for (const config of this.cryptoConfig) {
-          const apiData = data[config.id];
-          if (apiData && typeof apiData.usd === 'number') {
+          const price = accepted[config.id];
+          if (price !== undefined) {
             this.cachedPrices.push({
               ...config,
-              price: apiData.usd,
-              marketCap: apiData.usd_market_cap,
+              price,
+              marketCap: prices[config.id].market_cap,
             });
           } else {
             // Use baseline price if available
@@ -106,13 +98,19 @@ class CryptoApiService {
           return acc;
         }, {} as { [key: string]: number });
 
-        if (baseline) {
-          baseline.crypto_prices = { ...baseline.crypto_prices, ...cryptoPricesForBaseline };
-          baseline.timestamp = new Date().toISOString();
-          await FileManager.writeJson('baseline.json', baseline);
-        }
+        await FileManager.update<any>('baseline.json', current => {
+          if (!current) return undefined;
+          return {
+            ...current,
+            crypto_prices: { ...current.crypto_prices, ...cryptoPricesForBaseline },
+            timestamp: new Date().toISOString(),
+          };
+        });
+
+        this.feedStatus = priceFeedStatus(true, this.cryptoConfig.map(c => c.id).filter(id => accepted[id] === undefined), this.basketWeights());
 
         this.lastFetch = new Date();
+        await this.persistSnapshot();
         console.log(`Fetched prices for ${this.cachedPrices.length}/${this.cryptoConfig.length} cryptocurrencies`);
         
         return this.cachedPrices;
@@ -125,6 +123,8 @@ class CryptoApiService {
             price: baseline.crypto_prices[config.id] || 1.0,
             marketCap: undefined,
           }));
+          this.feedStatus = priceFeedStatus(false, this.cryptoConfig.map(c => c.id), this.basketWeights());
+          await this.persistSnapshot();
           return this.cachedPrices;
         }
         throw error;
@@ -132,30 +132,52 @@ class CryptoApiService {
     }, { maxAttempts: 3 });
   }
 
-  getWeightedCryptoAverage(): number {
-    if (this.cachedPrices.length === 0) {
-      throw new Error('No crypto price data available');
-    }
-
-    let weightedSum = 0;
-    let totalWeight = 0;
-
-    for (const crypto of this.cachedPrices) {
-      weightedSum += crypto.price * crypto.weight;
-      totalWeight += crypto.weight;
-    }
-
-    if (totalWeight === 0) {
-      throw new Error('Invalid crypto weights');
+  /**
+   * Persists the prices currently in the cache as one snapshot so the inputs
+   * behind every published index value can be retrieved later
+   */
+  private async persistSnapshot(): Promise<void> {
+    const snapshotId = randomUUID();
+    const timestamp = new Date();
+
+    try {
+      await storage.storeCryptoPrices(this.cachedPrices.map(crypto => ({
+        snapshotId,
+        symbol: crypto.symbol,
+        price: crypto.price.toString(),
+        marketCap: (crypto.marketCap ?? 0).toString(),
+        weight: crypto.weight.toString(),
+        timestamp,
+      })));
+      this.snapshotId = snapshotId;
+    } catch (error) {
+      console.error('Failed to persist crypto price snapshot:', error);
+      this.snapshotId = null;
     }
+  }
 
-    return weightedSum / totalWeight;
+  /**
+   * ID of the snapshot holding the prices currently in the cache
+   */
+  getSnapshotId(): string | null {
+    return this.snapshotId;
   }
 
   getAllCryptoPrices(): CryptoData[] {
     return this.cachedPrices;
   }
 
+  /**
+   * Live and stale prices of the last refresh
+   */
+  getFeedStatus(): PriceFeedStatus {
+    return this.feedStatus;
+  }
+
+  private basketWeights() {
+    return this.cryptoConfig.map(c => ({ key: c.id, weight: c.weight }));
+  }
+
   getMissingCryptos(): string[] {
     const configIds = this.cryptoConfig.map(c => c.id);
     const cachedIds = this.cachedPrices.map(p => p.id);
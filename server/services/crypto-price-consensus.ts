@@ -0,0 +1,207 @@
+import { FileManager } from '../utils/file-manager';
+import type { CryptoConfig } from './crypto-api';
+import {
+  getCryptoPriceProvider,
+  loadMockCryptoPriceProviders,
+  type CryptoPriceProvider,
+  type ProviderQuote,
+} from './crypto-providers';
+
+export const CRYPTO_CONSENSUS_LOG_FILE = 'crypto_consensus_log.json';
+
+const MAX_CONSENSUS_ROUNDS = 500;
+
+export type ConsensusMethod = 'median' | 'volume-weighted';
+
+export interface CryptoConsensusSettings {
+  providers: string[];   // Provider ids; "mock" expands to the providers in mock_crypto_prices.json
+  method: ConsensusMethod;
+  quorum: number;        // Agreeing providers needed to price an asset, capped at the number configured
+  max_deviation: number; // Relative distance from the cross-provider median beyond which a quote is excluded
+}
+
+// The defaults need no API keys and answer from US servers. With quorum 1 an
+// asset stays priced while one of them is down, and two quotes that disagree
+// beyond max_deviation still leave it unpriced.
+const SETTINGS: CryptoConsensusSettings = {
+  providers: (process.env.CRYPTO_PRICE_PROVIDERS || 'coingecko,coinbase').split(',').map(id => id.trim()).filter(Boolean),
+  method: process.env.CRYPTO_CONSENSUS === 'volume-weighted' ? 'volume-weighted' : 'median',
+  quorum: parseInt(process.env.CRYPTO_PROVIDER_QUORUM || '', 10) || 1,
+  max_deviation: parseFloat(process.env.CRYPTO_PROVIDER_MAX_DEVIATION || '') || 0.03,
+};
+
+export interface ConsensusPrice {
+  price: number;
+  market_cap?: number;
+  providers: string[]; // Providers whose quotes made the price
+}
+
+export interface ProviderReport {
+  provider: string;
+  ok: boolean;
+  error: string | null;
+  quoted: number;                      // Assets the provider returned a quote for
+  deviations: Record<string, number>;  // Signed, relative to the consensus price (or the median where unpriced)
+  excluded: string[];                  // Assets whose quote was beyond max_deviation
+  mean_abs_deviation: number | null;
+}
+
+export interface ConsensusRound {
+  timestamp: string;
+  method: ConsensusMethod;
+  quorum: number;
+  providers: ProviderReport[];
+  unpriced: Record<string, string>; // Asset → why no consensus was reached
+}
+
+export interface ConsensusResult {
+  prices: Record<string, ConsensusPrice>;
+  round: ConsensusRound;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Combines the quotes of several crypto price providers into one price per
+ * asset. Quotes further than max_deviation from the cross-provider median are
+ * excluded; an asset is priced when at least `quorum` providers agree, by the
+ * median of their quotes or, with volume-weighted consensus and every agreeing
+ * quote reporting volume, by their 24h-volume-weighted average. Every round is
+ * logged with each provider's deviation from the consensus.
+ */
+class CryptoPriceConsensusService {
+  getSettings(): CryptoConsensusSettings {
+    return SETTINGS;
+  }
+
+  async getProviders(): Promise<CryptoPriceProvider[]> {
+    const providers: CryptoPriceProvider[] = [];
+    for (const id of SETTINGS.providers) {
+      if (id === 'mock') {
+        providers.push(...await loadMockCryptoPriceProviders());
+      } else {
+        providers.push(getCryptoPriceProvider(id));
+      }
+    }
+    return providers;
+  }
+
+  /**
+   * Consensus log, most recent first
+   */
+  async getRounds(limit: number = 100): Promise<ConsensusRound[]> {
+    const rounds = await FileManager.readJson<ConsensusRound[]>(CRYPTO_CONSENSUS_LOG_FILE) || [];
+    return rounds.slice(-limit).reverse();
+  }
+
+  /**
+   * Queries every provider and returns the consensus prices. Throws when no
+   * provider answered; assets without a quorum are left out of `prices`.
+   */
+  async refresh(assets: CryptoConfig[], providers?: CryptoPriceProvider[]): Promise<ConsensusResult> {
+    const sources = providers ?? await this.getProviders();
+    if (sources.length === 0) {
+      throw new Error('No crypto price providers configured');
+    }
+
+    const quorum = Math.min(SETTINGS.quorum, sources.length);
+    const responses = await Promise.allSettled(sources.map(provider => provider.fetchQuotes(assets)));
+    const reports: ProviderReport[] = sources.map((provider, i) => {
+      const response = responses[i];
+      return {
+        provider: provider.id,
+        ok: response.status === 'fulfilled',
+        error: response.status === 'rejected' ? String(response.reason?.message ?? response.reason) : null,
+        quoted: response.status === 'fulfilled' ? Object.keys(response.value).length : 0,
+        deviations: {},
+        excluded: [],
+        mean_abs_deviation: null,
+      };
+    });
+
+    for (const report of reports.filter(r => r.error)) {
+      console.warn(`Crypto price provider ${report.provider} failed: ${report.error}`);
+    }
+    if (reports.every(report => !report.ok)) {
+      await this.logRound(reports, quorum, {});
+      throw new Error(`All crypto price providers failed: ${reports.map(r => `${r.provider}: ${r.error}`).join('; ')}`);
+    }
+
+    const prices: Record<string, ConsensusPrice> = {};
+    const unpriced: Record<string, string> = {};
+
+    for (const asset of assets) {
+      const offered = sources.flatMap((provider, i) => {
+        const response = responses[i];
+        const quote = response.status === 'fulfilled' ? response.value[asset.id] : undefined;
+        return quote ? [{ report: reports[i], quote }] : [];
+      });
+      if (offered.length === 0) {
+        unpriced[asset.id] = 'No provider quoted it';
+        continue;
+      }
+
+      const reference = median(offered.map(o => o.quote.price));
+      const agreeing = offered.filter(o => Math.abs(o.quote.price - reference) / reference <= SETTINGS.max_deviation);
+      for (const { report } of offered.filter(o => !agreeing.includes(o))) {
+        report.excluded.push(asset.id);
+      }
+
+      let price = reference;
+      if (agreeing.length < quorum) {
+        unpriced[asset.id] = `${agreeing.length} of ${quorum} required providers agree`;
+      } else {
+        price = this.combine(agreeing.map(o => o.quote));
+        prices[asset.id] = {
+          price,
+          market_cap: agreeing.find(o => o.quote.market_cap !== undefined)?.quote.market_cap,
+          providers: agreeing.map(o => o.report.provider),
+        };
+      }
+
+      for (const { report, quote } of offered) {
+        report.deviations[asset.id] = (quote.price - price) / price;
+      }
+    }
+
+    for (const report of reports) {
+      const deviations = Object.values(report.deviations);
+      report.mean_abs_deviation = deviations.length > 0
+        ? deviations.reduce((sum, d) => sum + Math.abs(d), 0) / deviations.length
+        : null;
+      if (report.excluded.length > 0) {
+        console.warn(`Crypto price provider ${report.provider} excluded for ${report.excluded.join(', ')}: beyond ${SETTINGS.max_deviation * 100}% of the median`);
+      }
+    }
+
+    return { prices, round: await this.logRound(reports, quorum, unpriced) };
+  }
+
+  private async logRound(reports: ProviderReport[], quorum: number, unpriced: Record<string, string>): Promise<ConsensusRound> {
+    const round: ConsensusRound = {
+      timestamp: new Date().toISOString(),
+      method: SETTINGS.method,
+      quorum,
+      providers: reports,
+      unpriced,
+    };
+    await FileManager.update<ConsensusRound[]>(CRYPTO_CONSENSUS_LOG_FILE, rounds =>
+      [...(Array.isArray(rounds) ? rounds : []), round].slice(-MAX_CONSENSUS_ROUNDS)
+    );
+    return round;
+  }
+
+  private combine(quotes: ProviderQuote[]): number {
+    if (SETTINGS.method === 'volume-weighted' && quotes.every(q => q.volume_24h !== undefined)) {
+      const volume = quotes.reduce((sum, q) => sum + q.volume_24h!, 0);
+      return quotes.reduce((sum, q) => sum + q.price * q.volume_24h!, 0) / volume;
+    }
+    return median(quotes.map(q => q.price));
+  }
+}
+
+export const cryptoPriceConsensusService = new CryptoPriceConsensusService();
@@ -0,0 +1,182 @@
+import { FileManager } from '../utils/file-manager';
+import type { CryptoConfig } from './crypto-api';
+
+export const MOCK_CRYPTO_PRICES_FILE = 'mock_crypto_prices.json';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface ProviderQuote {
+  price: number;        // USD
+  volume_24h?: number;  // USD traded over 24h, where the provider reports it
+  market_cap?: number;  // USD
+}
+
+export interface CryptoPriceProvider {
+  id: string;
+  description: string;
+  /**
+   * Quotes for the assets the provider lists, keyed by CoinGecko id. Assets it
+   * does not list are left out; a failed request throws.
+   */
+  fetchQuotes(assets: CryptoConfig[]): Promise<Record<string, ProviderQuote>>;
+}
+
+async function getJson<T>(provider: string, url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+function positive(value: unknown): number | undefined {
+  const number = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+interface CoinGeckoResponse {
+  [key: string]: {
+    usd: number;
+    usd_market_cap?: number;
+    usd_24h_vol?: number;
+  };
+}
+
+export const coinGeckoProvider: CryptoPriceProvider = {
+  id: 'coingecko',
+  description: 'CoinGecko simple/price, aggregated across exchanges',
+  async fetchQuotes(assets) {
+    const ids = assets.map(a => a.id).join(',');
+    const data = await getJson<CoinGeckoResponse>('CoinGecko',
+      `https://api.coingecko.com/api/v3/simple/price?ids=${ids}&vs_currencies=usd&include_market_cap=true&include_24hr_vol=true`
+    );
+    if (!data || typeof data !== 'object') {
+      throw new Error('Invalid CoinGecko response structure');
+    }
+
+    const quotes: Record<string, ProviderQuote> = {};
+    for (const asset of assets) {
+      const price = positive(data[asset.id]?.usd);
+      if (price === undefined) continue;
+      quotes[asset.id] = {
+        price,
+        volume_24h: positive(data[asset.id].usd_24h_vol),
+        market_cap: positive(data[asset.id].usd_market_cap),
+      };
+    }
+    return quotes;
+  },
+};
+
+interface CoinbaseExchangeRatesResponse {
+  data: { currency: string; rates: Record<string, string> };
+}
+
+export const coinbaseProvider: CryptoPriceProvider = {
+  id: 'coinbase',
+  description: 'Coinbase exchange rates against USD, by ticker symbol',
+  async fetchQuotes(assets) {
+    const data = await getJson<CoinbaseExchangeRatesResponse>('Coinbase',
+      'https://api.coinbase.com/v2/exchange-rates?currency=USD'
+    );
+    if (!data?.data?.rates || typeof data.data.rates !== 'object') {
+      throw new Error('Invalid Coinbase response structure');
+    }
+
+    // Rates are units of the asset per USD
+    const quotes: Record<string, ProviderQuote> = {};
+    for (const asset of assets) {
+      const rate = positive(data.data.rates[asset.symbol.toUpperCase()]);
+      if (rate === undefined) continue;
+      quotes[asset.id] = { price: 1 / rate };
+    }
+    return quotes;
+  },
+};
+
+interface BinanceTicker {
+  symbol: string;
+  lastPrice: string;
+  quoteVolume: string;
+}
+
+export const binanceProvider: CryptoPriceProvider = {
+  id: 'binance',
+  description: 'Binance 24h tickers against USDT, taken as USD',
+  async fetchQuotes(assets) {
+    // One request per pair: a batch fails as a whole if any pair is not listed
+    const responses = await Promise.allSettled(assets.map(asset =>
+      getJson<BinanceTicker>('Binance',
+        `https://api.binance.com/api/v3/ticker/24hr?symbol=${asset.symbol.toUpperCase()}USDT`
+      )
+    ));
+    const failed = responses.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (failed && responses.every(r => r.status === 'rejected')) {
+      throw failed.reason;
+    }
+
+    const quotes: Record<string, ProviderQuote> = {};
+    assets.forEach((asset, i) => {
+      const response = responses[i];
+      if (response.status === 'rejected') return;
+      const price = positive(response.value?.lastPrice);
+      if (price === undefined) return;
+      quotes[asset.id] = { price, volume_24h: positive(response.value.quoteVolume) };
+    });
+    return quotes;
+  },
+};
+
+/**
+ * Offline provider serving fixed quotes, or whatever `source` returns on each call
+ */
+export function createMockCryptoPriceProvider(
+  id: string,
+  source: Record<string, ProviderQuote> | (() => Promise<Record<string, ProviderQuote>>)
+): CryptoPriceProvider {
+  return {
+    id,
+    description: 'Mock provider with local quotes',
+    async fetchQuotes(assets) {
+      const quotes = typeof source === 'function' ? await source() : source;
+      return Object.fromEntries(assets.filter(a => quotes[a.id]).map(a => [a.id, quotes[a.id]]));
+    },
+  };
+}
+
+/**
+ * One mock provider per top-level key of mock_crypto_prices.json, named
+ * mock-<key>, each mapping CoinGecko ids to quotes. The file is re-read on
+ * every fetch so quotes can be edited while the server runs.
+ */
+export async function loadMockCryptoPriceProviders(): Promise<CryptoPriceProvider[]> {
+  if (!await FileManager.exists(MOCK_CRYPTO_PRICES_FILE)) return [];
+  const file = await FileManager.readJson<Record<string, Record<string, ProviderQuote>>>(MOCK_CRYPTO_PRICES_FILE) || {};
+  return Object.keys(file).map(key => createMockCryptoPriceProvider(`mock-${key}`, async () => {
+    const current = await FileManager.readJson<Record<string, Record<string, ProviderQuote>>>(MOCK_CRYPTO_PRICES_FILE);
+    if (!current?.[key]) throw new Error(`No quotes for mock-${key} in ${MOCK_CRYPTO_PRICES_FILE}`);
+    return current[key];
+  }));
+}
+
+const registry = new Map<string, CryptoPriceProvider>();
+
+export function registerCryptoPriceProvider(provider: CryptoPriceProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getCryptoPriceProvider(id: string): CryptoPriceProvider {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new Error(`Unknown crypto price provider "${id}". Available: ${Array.from(registry.keys()).join(', ')}, mock`);
+  }
+  return provider;
+}
+
+export function listCryptoPriceProviders(): CryptoPriceProvider[] {
+  return Array.from(registry.values());
+}
+
+registerCryptoPriceProvider(coinGeckoProvider);
+registerCryptoPriceProvider(coinbaseProvider);
+registerCryptoPriceProvider(binanceProvider);
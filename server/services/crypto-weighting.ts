@@ -0,0 +1,215 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import { storage } from '../storage';
+import type { CryptoConfig } from './crypto-api';
+import { boundedWeights, roundWeight, roundWeights } from './basket-weights';
+
+export const CRYPTO_WEIGHTS_PROPOSAL_FILE = 'crypto_weights_proposal.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const cryptoWeightingRequestSchema = z.object({
+  window_days: z.number().int().min(1).max(365).default(30), // Trailing market cap window
+  max_weight: z.number().gt(0).lte(1).default(0.5),           // Cap for every asset
+  asset_caps: z.record(z.number().gt(0).lte(1)).default({}),  // Per-asset caps by CoinGecko id, override max_weight
+  min_weight: z.number().gte(0).lt(1).default(0.01),          // Floor for every eligible asset
+  eligibility: z.object({
+    min_market_cap: z.number().nonnegative().default(1e9),    // Trailing average, USD
+    min_coverage: z.number().gte(0).lte(1).default(0.5),      // Share of window days with market cap data
+    max_constituents: z.number().int().min(1).max(100).optional(), // Largest N eligible assets only
+    exclude: z.array(z.string()).default([]),                  // CoinGecko ids, e.g. stablecoins
+  }).strict().default({}),
+  // Market cap observations; defaults to the crypto price snapshots in storage
+  market_caps: z.array(z.object({
+    id: z.string(),
+    timestamp: z.string().datetime(),
+    market_cap: z.number().positive(),
+  })).max(1000000).optional(),
+}).strict();
+
+export type CryptoWeightingRequest = z.infer<typeof cryptoWeightingRequestSchema>;
+export type CryptoWeightingRules = Omit<CryptoWeightingRequest, 'market_caps'>;
+
+export interface MarketCapSample {
+  id: string;
+  timestamp: string;
+  market_cap: number;
+}
+
+export interface AssetWeighting {
+  id: string;
+  symbol: string;
+  avg_market_cap: number | null; // Trailing average over the window
+  coverage: number;              // Share of window days with data
+  eligible: boolean;
+  reason?: string;               // Why an asset is not eligible
+  market_cap_share: number | null; // Uncapped share among eligible assets
+  weight: number;
+}
+
+export type WeightChangeStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface WeightDiff {
+  id: string;
+  symbol: string;
+  current: number;
+  proposed: number;
+  change: number;
+  status: WeightChangeStatus;
+}
+
+export interface CryptoWeightingProposal {
+  generated_at: string;
+  window: { from: string; to: string };
+  rules: CryptoWeightingRules;
+  assets: AssetWeighting[];
+  weights: CryptoConfig[]; // Same shape as cryptos.json, ready to adopt
+  diff: WeightDiff[];
+}
+
+export class CryptoWeightingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CryptoWeightingError';
+  }
+}
+
+class CryptoWeightingService {
+  /**
+   * Derives crypto basket weights from trailing average market caps. Candidates
+   * are the assets in cryptos.json; nothing is adopted, the proposal is only
+   * returned and stored for review.
+   */
+  async propose(request: CryptoWeightingRequest, now: Date = new Date()): Promise<CryptoWeightingProposal> {
+    const { market_caps: providedSamples, ...rules } = request;
+    const current = await FileManager.readJson<CryptoConfig[]>('cryptos.json') || [];
+    if (current.length === 0) {
+      throw new CryptoWeightingError('cryptos.json has no candidate assets');
+    }
+
+    const from = new Date(now.getTime() - rules.window_days * DAY_MS);
+    const samples = (providedSamples || await this.loadMarketCaps(from, current))
+      .filter(s => {
+        const time = new Date(s.timestamp).getTime();
+        return time >= from.getTime() && time <= now.getTime();
+      });
+
+    const assets: AssetWeighting[] = current.map(crypto => {
+      const own = samples.filter(s => s.id === crypto.id);
+      const days = new Set(own.map(s => s.timestamp.slice(0, 10)));
+      const avg = own.length > 0 ? own.reduce((sum, s) => sum + s.market_cap, 0) / own.length : null;
+      const coverage = Math.min(1, days.size / rules.window_days);
+
+      let reason: string | undefined;
+      if (rules.eligibility.exclude.includes(crypto.id)) {
+        reason = 'excluded';
+      } else if (avg === null) {
+        reason = 'no market cap data in window';
+      } else if (coverage < rules.eligibility.min_coverage) {
+        reason = `coverage ${coverage.toFixed(2)} below ${rules.eligibility.min_coverage}`;
+      } else if (avg < rules.eligibility.min_market_cap) {
+        reason = `average market cap below ${rules.eligibility.min_market_cap}`;
+      }
+
+      return {
+        id: crypto.id,
+        symbol: crypto.symbol,
+        avg_market_cap: avg,
+        coverage,
+        eligible: reason === undefined,
+        reason,
+        market_cap_share: null,
+        weight: 0,
+      };
+    });
+
+    // Keep only the largest constituents if a limit is set
+    const maxConstituents = rules.eligibility.max_constituents;
+    if (maxConstituents !== undefined) {
+      assets
+        .filter(a => a.eligible)
+        .sort((a, b) => b.avg_market_cap! - a.avg_market_cap!)
+        .slice(maxConstituents)
+        .forEach(a => {
+          a.eligible = false;
+          a.reason = `outside the largest ${maxConstituents}`;
+        });
+    }
+
+    const eligible = assets.filter(a => a.eligible);
+    if (eligible.length === 0) {
+      throw new CryptoWeightingError('No asset meets the eligibility rules');
+    }
+
+    const totalCap = eligible.reduce((sum, a) => sum + a.avg_market_cap!, 0);
+    eligible.forEach(a => { a.market_cap_share = a.avg_market_cap! / totalCap; });
+
+    const floors = eligible.map(() => rules.min_weight);
+    const caps = eligible.map(a => rules.asset_caps[a.id] ?? rules.max_weight);
+    const weights = roundWeights(boundedWeights(eligible.map(a => a.market_cap_share!), floors, caps), floors, caps);
+    eligible.forEach((a, i) => { a.weight = weights[i]; });
+
+    const proposed: CryptoConfig[] = current
+      .filter(crypto => assets.find(a => a.id === crypto.id)!.eligible)
+      .map(crypto => ({ ...crypto, weight: assets.find(a => a.id === crypto.id)!.weight }));
+
+    return {
+      generated_at: now.toISOString(),
+      window: { from: from.toISOString(), to: now.toISOString() },
+      rules,
+      assets,
+      weights: proposed,
+      diff: this.diff(current, proposed),
+    };
+  }
+
+  /**
+   * Stores the proposal for review; adopting it means copying its weights into cryptos.json
+   */
+  async saveProposal(proposal: CryptoWeightingProposal): Promise<void> {
+    await FileManager.writeJson(CRYPTO_WEIGHTS_PROPOSAL_FILE, proposal);
+  }
+
+  private diff(current: CryptoConfig[], proposed: CryptoConfig[]): WeightDiff[] {
+    const ids = Array.from(new Set([...current.map(c => c.id), ...proposed.map(c => c.id)]));
+    return ids.map(id => {
+      const before = current.find(c => c.id === id);
+      const after = proposed.find(c => c.id === id);
+      const currentWeight = before?.weight ?? 0;
+      const proposedWeight = after?.weight ?? 0;
+      const change = roundWeight(proposedWeight - currentWeight);
+
+      let status: WeightChangeStatus = 'changed';
+      if (!before) status = 'added';
+      else if (!after) status = 'removed';
+      else if (change === 0) status = 'unchanged';
+
+      return {
+        id,
+        symbol: (before ?? after)!.symbol,
+        current: currentWeight,
+        proposed: proposedWeight,
+        change,
+        status,
+      };
+    });
+  }
+
+  /**
+   * Market caps from the stored crypto price snapshots. Rows are keyed by
+   * symbol and fallback rows carry no market cap, so those are skipped.
+   */
+  private async loadMarketCaps(since: Date, basket: CryptoConfig[]): Promise<MarketCapSample[]> {
+    const rows = await storage.getCryptoPricesSince(since);
+    const idBySymbol = new Map(basket.map(c => [c.symbol, c.id]));
+
+    return rows.flatMap(row => {
+      const id = idBySymbol.get(row.symbol);
+      const marketCap = parseFloat(row.marketCap);
+      if (!id || !(marketCap > 0)) return [];
+      return [{ id, timestamp: new Date(row.timestamp).toISOString(), market_cap: marketCap }];
+    });
+  }
+}
+
+export const cryptoWeightingService = new CryptoWeightingService();
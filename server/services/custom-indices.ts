@@ -0,0 +1,180 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import { avgxCalculatorService, TIMEFRAME_MS, type HistoryEntry, type HistoryTimeframe } from './avgx-calculator';
+import type { CalculationRecord } from './calculation-record';
+import { getMethodology } from './index-methodology';
+import { BasketIndexSeries, IndexNotPublishedError, type BasketIndexDefinition, type BasketIndexValue } from './basket-index';
+
+export const CUSTOM_INDICES_FILE = 'custom_indices.json';
+
+// Every custom index is recomputed and rewrites its state and history tiers on each tick, so keep the count small
+const MAX_CUSTOM_INDICES = 20;
+
+function uniqueBy<T>(key: keyof T) {
+  return (entries: T[]) => new Set(entries.map(e => e[key])).size === entries.length;
+}
+
+function positiveTotal(entries: Array<{ weight: number }>) {
+  return entries.reduce((sum, e) => sum + e.weight, 0) > 0;
+}
+
+export const customIndexSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9-]{2,39}$/, 'Use 3-40 lowercase letters, digits and dashes'),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).default(''),
+  fiat: z.array(z.object({
+    code: z.string().regex(/^[A-Z]{3}$/),
+    weight: z.number().nonnegative(),
+  }).strict()).min(1)
+    .refine(uniqueBy('code'), 'Duplicate currency code')
+    .refine(positiveTotal, 'Fiat weights must not all be zero'),
+  crypto: z.array(z.object({
+    id: z.string().min(1),      // CoinGecko id
+    weight: z.number().nonnegative(),
+  }).strict()).min(1)
+    .refine(uniqueBy('id'), 'Duplicate crypto id')
+    .refine(positiveTotal, 'Crypto weights must not all be zero'),
+}).strict();
+
+export type CustomIndexRequest = z.infer<typeof customIndexSchema>;
+
+export interface CustomIndexDefinition extends BasketIndexDefinition {
+  created_at: string;
+  created_by: string;
+  retired_at?: string; // Retired indices stop publishing; their id is not reused
+  retired_by?: string;
+}
+
+export class CustomIndexError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CustomIndexError';
+  }
+}
+
+/**
+ * Partner-defined baskets, computed on every tick with the same prices,
+ * stability config and methodology as AVGX. Each index has its own EWMA
+ * state, clamp reference, divisors and history, so nothing it does can
+ * affect the flagship index or another custom index.
+ */
+class CustomIndexService {
+  private series = new Map<string, BasketIndexSeries>();
+
+  async getDefinitions(): Promise<CustomIndexDefinition[]> {
+    if (!await FileManager.exists(CUSTOM_INDICES_FILE)) return [];
+    const definitions = await FileManager.readJson<CustomIndexDefinition[]>(CUSTOM_INDICES_FILE) || [];
+    return definitions.filter(d => !d.retired_at);
+  }
+
+  /**
+   * Registers a basket. Constituents must be priced by the fiat and crypto
+   * services, i.e. appear in the latest published calculation.
+   */
+  async register(request: CustomIndexRequest, actor: string): Promise<CustomIndexDefinition> {
+    const record = await avgxCalculatorService.getLatestRecord();
+    const unpriced = [
+      ...request.fiat.filter(f => !record.inputs.fiat.some(p => p.code === f.code)).map(f => f.code),
+      ...request.crypto.filter(c => !record.inputs.crypto.some(p => p.id === c.id)).map(c => c.id),
+    ];
+    if (unpriced.length > 0) {
+      throw new CustomIndexError(`No prices available for ${unpriced.join(', ')}`);
+    }
+
+    const definition: CustomIndexDefinition = {
+      ...request,
+      output: 'avgx',
+      created_at: new Date().toISOString(),
+      created_by: actor,
+    };
+
+    await FileManager.update<CustomIndexDefinition[]>(CUSTOM_INDICES_FILE, current => {
+      const definitions = current || [];
+      if (definitions.some(d => d.id === definition.id)) {
+        throw new CustomIndexError(`Index ${definition.id} already exists`);
+      }
+      if (definitions.filter(d => !d.retired_at).length >= MAX_CUSTOM_INDICES) {
+        throw new CustomIndexError(`At most ${MAX_CUSTOM_INDICES} custom indices can be active`);
+      }
+      return [...definitions, definition];
+    });
+
+    console.log(`Custom index ${definition.id} registered by ${actor}`);
+    return definition;
+  }
+
+  /**
+   * Stops publishing an index. Its history stays on disk but is no longer served.
+   */
+  async retire(id: string, actor: string): Promise<CustomIndexDefinition> {
+    let retired: CustomIndexDefinition | undefined;
+    await FileManager.update<CustomIndexDefinition[]>(CUSTOM_INDICES_FILE, current => {
+      const definitions = current || [];
+      const target = definitions.find(d => d.id === id && !d.retired_at);
+      if (!target) {
+        throw new CustomIndexError(`Index ${id} not found`);
+      }
+      retired = { ...target, retired_at: new Date().toISOString(), retired_by: actor };
+      return definitions.map(d => d === target ? retired! : d);
+    });
+
+    console.log(`Custom index ${id} retired by ${actor}`);
+    return retired!;
+  }
+
+  /**
+   * Publishes every custom index at the flagship record's timestamp and prices.
+   * A failing index is logged and does not hold back the others.
+   */
+  async publishAll(record: CalculationRecord): Promise<void> {
+    for (const definition of await this.getDefinitions()) {
+      try {
+        await this.publish(definition, record);
+      } catch (error) {
+        console.error(`Failed to publish custom index ${definition.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Latest value and breakdown of one index, or null if there is no such index.
+   * Throws IndexNotPublishedError while it is pending its first scheduled tick.
+   */
+  async get(id: string): Promise<BasketIndexValue | null> {
+    const definition = (await this.getDefinitions()).find(d => d.id === id);
+    if (!definition) return null;
+
+    const value = await this.getSeries(definition.id).describe(definition);
+    if (!value) throw new IndexNotPublishedError(definition.id);
+    return value;
+  }
+
+  async getHistory(id: string, timeframe: HistoryTimeframe): Promise<HistoryEntry[] | null> {
+    const definition = (await this.getDefinitions()).find(d => d.id === id);
+    return definition
+      ? this.getSeries(definition.id).getHistory(new Date(Date.now() - TIMEFRAME_MS[timeframe]))
+      : null;
+  }
+
+  private async publish(definition: CustomIndexDefinition, record: CalculationRecord): Promise<CalculationRecord> {
+    return this.getSeries(definition.id).publish(definition, record, getMethodology(record.methodology.id));
+  }
+
+  /**
+   * Drops the cached series, e.g. after their files were replaced by a restore
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  private getSeries(id: string): BasketIndexSeries {
+    let series = this.series.get(id);
+    if (!series) {
+      series = new BasketIndexSeries(`custom_${id}`);
+      this.series.set(id, series);
+    }
+    return series;
+  }
+}
+
+export const customIndexService = new CustomIndexService();
@@ -1,7 +1,11 @@
+import { randomUUID } from 'crypto';
 import { FileManager } from '../utils/file-manager';
 import { withRetry } from '../utils/retry';
+import { storage } from '../storage';
+import { priceGuardService, priceFeedStatus, type PriceFeedStatus } from './price-guard';
+import { fxRateConsensusService } from './fx-rate-consensus';
 
-interface FiatConfig {
+export interface FiatConfig {
   code: string;
   name: string;
   weight: number;
@@ -11,20 +15,17 @@ interface FiatData extends FiatConfig {
   rate: number;
 }
 
-interface ExchangeRateResponse {
-  base: string;
-  date: string;
-  rates: { [key: string]: number };
-}
-
 class FiatApiService {
   private cachedRates: FiatData[] = [];
   private fiatConfig: FiatConfig[] = [];
   private lastFetch: Date | null = null;
+  private snapshotId: string | null = null;
+  private feedStatus: PriceFeedStatus = { provider_ok: false, stale: [], stale_weight: 1, updated_at: null };
   private readonly CACHE_DURATION = 60000; // 1 minute
 
   async initialize(): Promise<void> {
     this.fiatConfig = await FileManager.readJson<FiatConfig[]>('fiats.json') || [];
+    this.lastFetch = null; // Cached rates carry the previous weights
     console.log(`Loaded ${this.fiatConfig.length} fiat currencies from config`);
   }
 
@@ -51,24 +52,14 @@ class FiatApiService {
       
       try {
         // Get all currencies except USD
-        const currencies = this.fiatConfig
-          .filter(f => f.code !== 'USD')
-          .map(f => f.code)
-          .join(',');
-        
-        const response = await fetch(
-          `https://api.exchangerate.host/latest?base=USD&symbols=${currencies}`
-        );
-
-        if (!response.ok) {
-          throw new Error(`Exchange Rate API error: ${response.status} ${response.statusText}`);
-        }
+        // Cross-provider consensus, with quote conventions checked against the last good rates
+        const currencies = this.fiatConfig.filter(f => f.code !== 'USD').map(f => f.code);
+        const { rates } = await fxRateConsensusService.refresh(currencies, baseline?.fiat_rates);
 
-        const data: ExchangeRateResponse = await response.json();
-        
-        if (!data || !data.rates || typeof data.rates !== 'object') {
-          throw new Error('Invalid API response structure');
-        }
+        // Quarantined rates fall back to the baseline like missing ones
+        const { accepted } = await priceGuardService.screen('fiat', Object.fromEntries(
+          Object.entries(rates).map(([code, consensus]) => [code, consensus.rate])
+        ), baseline?.fiat_rates);
 
         // Build rates array starting with USD
         this.cachedRates = [];
@@ -80,10 +71,10 @@ class FiatApiService {
               ...config,
               rate: 1.0,
             });
-          } else if (data.rates[config.code] && typeof data.rates[config.code] === 'number') {
+          } else if (accepted[config.code] !== undefined) {
             this.cachedRates.push({
               ...config,
-              rate: data.rates[config.code],
+              rate: accepted[config.code],
             });
           } else {
             // Use baseline rate if available
@@ -110,13 +101,20 @@ class FiatApiService {
           return acc;
         }, {} as { [key: string]: number });
 
-        if (baseline) {
-          baseline.fiat_rates = { ...baseline.fiat_rates, ...fiatRatesForBaseline };
-          baseline.timestamp = new Date().toISOString();
-          await FileManager.writeJson('baseline.json', baseline);
-        }
+        await FileManager.update<any>('baseline.json', current => {
+          if (!current) return undefined;
+          return {
+            ...current,
+            fiat_rates: { ...current.fiat_rates, ...fiatRatesForBaseline },
+            timestamp: new Date().toISOString(),
+          };
+        });
+
+        const liveCodes = this.fiatConfig.filter(f => f.code === 'USD' || accepted[f.code] !== undefined).map(f => f.code);
+        this.feedStatus = priceFeedStatus(true, this.fiatConfig.map(f => f.code).filter(code => !liveCodes.includes(code)), this.basketWeights());
 
         this.lastFetch = new Date();
+        await this.persistSnapshot();
         console.log(`Fetched rates for ${this.cachedRates.length}/${this.fiatConfig.length} fiat currencies`);
         
         return this.cachedRates;
@@ -128,6 +126,8 @@ class FiatApiService {
             ...config,
             rate: baseline.fiat_rates[config.code] || 1.0,
           }));
+          this.feedStatus = priceFeedStatus(false, this.fiatConfig.filter(f => f.code !== 'USD').map(f => f.code), this.basketWeights());
+          await this.persistSnapshot();
           return this.cachedRates;
         }
         throw error;
@@ -135,32 +135,51 @@ class FiatApiService {
     }, { maxAttempts: 3 });
   }
 
-  getWeightedFiatAverage(): number {
-    if (this.cachedRates.length === 0) {
-      throw new Error('No fiat rate data available');
-    }
-
-    let weightedSum = 0;
-    let totalWeight = 0;
-
-    for (const fiat of this.cachedRates) {
-      // Use inverse rate to get USD value (since API returns rates FROM USD)
-      const usdValue = fiat.code === 'USD' ? 1.0 : 1.0 / fiat.rate;
-      weightedSum += usdValue * fiat.weight;
-      totalWeight += fiat.weight;
-    }
-
-    if (totalWeight === 0) {
-      throw new Error('Invalid fiat weights');
+  /**
+   * Persists the rates currently in the cache as one snapshot so the inputs
+   * behind every published index value can be retrieved later
+   */
+  private async persistSnapshot(): Promise<void> {
+    const snapshotId = randomUUID();
+    const timestamp = new Date();
+
+    try {
+      await storage.storeFiatRates(this.cachedRates.map(fiat => ({
+        snapshotId,
+        currency: fiat.code,
+        rate: fiat.rate.toString(),
+        weight: fiat.weight.toString(),
+        timestamp,
+      })));
+      this.snapshotId = snapshotId;
+    } catch (error) {
+      console.error('Failed to persist fiat rate snapshot:', error);
+      this.snapshotId = null;
     }
+  }
 
-    return weightedSum / totalWeight;
+  /**
+   * ID of the snapshot holding the rates currently in the cache
+   */
+  getSnapshotId(): string | null {
+    return this.snapshotId;
   }
 
   getAllFiatRates(): FiatData[] {
     return this.cachedRates;
   }
 
+  /**
+   * Live and stale rates of the last refresh
+   */
+  getFeedStatus(): PriceFeedStatus {
+    return this.feedStatus;
+  }
+
+  private basketWeights() {
+    return this.fiatConfig.map(f => ({ key: f.code, weight: f.weight }));
+  }
+
   getMissingCurrencies(): string[] {
     const configCodes = this.fiatConfig.map(f => f.code);
     const cachedCodes = this.cachedRates.map(r => r.code);
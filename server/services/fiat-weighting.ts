@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import type { FiatConfig } from './fiat-api';
+import { avgxCalculatorService } from './avgx-calculator';
+import { boundedWeights, roundWeight, roundWeights } from './basket-weights';
+import { buildCalculationRecord } from './calculation-record';
+import { getMethodology } from './index-methodology';
+
+export const FIAT_DATASETS_DIR = 'datasets';
+export const FIAT_WEIGHTS_PROPOSAL_FILE = 'fiat_weights_proposal.json';
+
+const DATASET_FILENAME = /^[\w.-]+\.csv$/;
+
+export const fiatWeightingComponentSchema = z.object({
+  dataset: z.string().regex(DATASET_FILENAME),  // CSV in data/datasets with code,value columns
+  weight: z.number().positive(),                // Relative importance, normalized across components
+  transform: z.enum(['linear', 'sqrt', 'log']).default('linear'), // Applied to values before taking shares
+}).strict();
+
+export const fiatWeightingRequestSchema = z.object({
+  components: z.array(fiatWeightingComponentSchema).min(1).max(10), // No datasets ship with the repo, so the caller names them
+  max_weight: z.number().gt(0).lte(1).default(1),    // Cap for every currency
+  min_weight: z.number().gte(0).lt(1).default(0),    // Floor for every currency with data
+}).strict();
+
+export type FiatWeightingRequest = z.infer<typeof fiatWeightingRequestSchema>;
+export type FiatWeightingComponent = z.infer<typeof fiatWeightingComponentSchema>;
+
+export interface CurrencyWeighting {
+  code: string;
+  shares: Record<string, number | null>; // Share of each dataset, null if the currency is missing from it
+  score: number;                         // Component-weighted share before caps
+  weight: number;
+}
+
+export interface FiatWeightingProposal {
+  generated_at: string;
+  methodology: FiatWeightingRequest & {
+    datasets: Record<string, { rows: number }>;
+  };
+  currencies: CurrencyWeighting[];
+  weights: FiatConfig[]; // Same shape as fiats.json, ready to adopt
+  diff: Array<{ code: string; current: number; proposed: number; change: number }>;
+}
+
+export interface IndexValues {
+  wf_raw: number;
+  wf_smoothed: number;
+  avgx_unclamped: number;
+  avgx: number;
+}
+
+export interface FiatWeightingImpact {
+  calculation_hash: string; // Published calculation the proposal is applied to
+  current: IndexValues;
+  proposed: IndexValues;
+  wf_raw_change: number;    // Percent, the long-run effect once smoothing catches up
+  avgx_change: number;      // Percent, for this tick after smoothing and the clamp
+  missing_rates: string[];  // Proposed currencies without a rate in the published inputs
+}
+
+export class FiatWeightingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FiatWeightingError';
+  }
+}
+
+const TRANSFORMS: Record<FiatWeightingComponent['transform'], (value: number) => number> = {
+  linear: value => value,
+  sqrt: value => Math.sqrt(value),
+  log: value => Math.log1p(value),
+};
+
+/**
+ * Parses a two-column dataset: a header with "code" and "value" columns,
+ * then one row per currency. Blank lines and # comments are skipped.
+ */
+export function parseFiatDataset(filename: string, csv: string): Map<string, number> {
+  const lines = csv.split(/\r?\n/).map(line => line.trim());
+  const rows = lines
+    .map((line, index) => ({ line, number: index + 1 }))
+    .filter(({ line }) => line !== '' && !line.startsWith('#'));
+  if (rows.length === 0) {
+    throw new FiatWeightingError(`${filename} is empty`);
+  }
+
+  const header = rows[0].line.split(',').map(column => column.trim().replace(/^"|"$/g, '').toLowerCase());
+  const codeColumn = header.indexOf('code');
+  const valueColumn = header.indexOf('value');
+  if (codeColumn === -1 || valueColumn === -1) {
+    throw new FiatWeightingError(`${filename} needs "code" and "value" columns`);
+  }
+
+  const values = new Map<string, number>();
+  for (const { line, number } of rows.slice(1)) {
+    const fields = line.split(',').map(field => field.trim().replace(/^"|"$/g, ''));
+    const code = fields[codeColumn]?.toUpperCase();
+    const value = Number(fields[valueColumn]);
+    if (!code || !/^[A-Z]{3}$/.test(code) || !Number.isFinite(value) || value < 0) {
+      throw new FiatWeightingError(`${filename} line ${number}: expected a currency code and a non-negative value`);
+    }
+    if (values.has(code)) {
+      throw new FiatWeightingError(`${filename} line ${number}: duplicate currency ${code}`);
+    }
+    values.set(code, value);
+  }
+  return values;
+}
+
+class FiatWeightingService {
+  /**
+   * Derives fiat basket weights from the configured datasets. Each currency's
+   * score is the component-weighted average of its share in every dataset.
+   * Candidates are the currencies in fiats.json; nothing is adopted.
+   */
+  async propose(request: FiatWeightingRequest, now: Date = new Date()): Promise<FiatWeightingProposal> {
+    const current = await FileManager.readJson<FiatConfig[]>('fiats.json') || [];
+    if (current.length === 0) {
+      throw new FiatWeightingError('fiats.json has no candidate currencies');
+    }
+
+    const datasets = new Map<string, Map<string, number>>();
+    for (const { dataset } of request.components) {
+      if (datasets.has(dataset)) continue;
+      const csv = await FileManager.readText(`${FIAT_DATASETS_DIR}/${dataset}`);
+      if (csv === null) {
+        throw new FiatWeightingError(`Dataset ${dataset} not found in data/${FIAT_DATASETS_DIR}`);
+      }
+      datasets.set(dataset, parseFiatDataset(dataset, csv));
+    }
+
+    const totalComponentWeight = request.components.reduce((sum, c) => sum + c.weight, 0);
+    const currencies: CurrencyWeighting[] = current.map(fiat => ({ code: fiat.code, shares: {}, score: 0, weight: 0 }));
+
+    for (const component of request.components) {
+      const values = datasets.get(component.dataset)!;
+      const transform = TRANSFORMS[component.transform];
+      const total = current.reduce((sum, fiat) => sum + transform(values.get(fiat.code) ?? 0), 0);
+      if (total === 0) {
+        throw new FiatWeightingError(`${component.dataset} has no values for the basket currencies`);
+      }
+
+      for (const currency of currencies) {
+        const value = values.get(currency.code);
+        const share = value === undefined ? null : transform(value) / total;
+        currency.shares[component.dataset] = share;
+        currency.score += (share ?? 0) * component.weight / totalComponentWeight;
+      }
+    }
+
+    // Currencies with no data in any dataset drop out of the basket
+    const weighted = currencies.filter(c => c.score > 0);
+    const floors = weighted.map(() => request.min_weight);
+    const caps = weighted.map(() => request.max_weight);
+    const weights = roundWeights(boundedWeights(weighted.map(c => c.score), floors, caps), floors, caps);
+    weighted.forEach((c, i) => { c.weight = weights[i]; });
+
+    const proposed: FiatConfig[] = current
+      .map(fiat => ({ ...fiat, weight: currencies.find(c => c.code === fiat.code)!.weight }))
+      .filter(fiat => fiat.weight > 0);
+
+    return {
+      generated_at: now.toISOString(),
+      methodology: {
+        ...request,
+        datasets: Object.fromEntries(Array.from(datasets.entries()).map(([name, values]) => [name, { rows: values.size }])),
+      },
+      currencies,
+      weights: proposed,
+      diff: current.map(fiat => {
+        const weight = proposed.find(p => p.code === fiat.code)?.weight ?? 0;
+        return { code: fiat.code, current: fiat.weight, proposed: weight, change: roundWeight(weight - fiat.weight) };
+      }),
+    };
+  }
+
+  /**
+   * Replays the latest published calculation with the proposed fiat weights.
+   * The EWMA state and clamp reference are the published ones, so the result
+   * is the value that tick would have had under the proposal.
+   */
+  async previewImpact(proposal: FiatWeightingProposal): Promise<FiatWeightingImpact> {
+    const record = await avgxCalculatorService.getLatestRecord();
+    const rates = new Map(record.inputs.fiat.map(f => [f.code, f.rate]));
+
+    const fiat = proposal.weights
+      .filter(f => rates.has(f.code))
+      .map(f => ({ code: f.code, name: f.name, rate: rates.get(f.code)!, weight: f.weight }));
+
+    const replay = buildCalculationRecord(
+      record.timestamp,
+      { ...record.inputs, fiat },
+      record.config,
+      getMethodology(record.methodology.id)
+    );
+
+    const values = ({ wf_raw, wf_smoothed, avgx_unclamped, avgx_final }: typeof record.intermediates): IndexValues =>
+      ({ wf_raw, wf_smoothed, avgx_unclamped, avgx: avgx_final });
+    const current = record.intermediates;
+    const proposed = replay.intermediates;
+    return {
+      calculation_hash: record.hash,
+      current: values(current),
+      proposed: values(proposed),
+      wf_raw_change: ((proposed.wf_raw - current.wf_raw) / current.wf_raw) * 100,
+      avgx_change: ((proposed.avgx_final - current.avgx_final) / current.avgx_final) * 100,
+      missing_rates: proposal.weights.filter(f => !rates.has(f.code)).map(f => f.code),
+    };
+  }
+
+  /**
+   * Stores the proposal for review; adopting it means copying its weights into fiats.json
+   */
+  async saveProposal(proposal: FiatWeightingProposal): Promise<void> {
+    await FileManager.writeJson(FIAT_WEIGHTS_PROPOSAL_FILE, proposal);
+  }
+}
+
+export const fiatWeightingService = new FiatWeightingService();
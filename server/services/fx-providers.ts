@@ -0,0 +1,165 @@
+import { FileManager } from '../utils/file-manager';
+
+export const MOCK_FX_RATES_FILE = 'mock_fx_rates.json';
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export interface FxRateProvider {
+  id: string;
+  description: string;
+  /**
+   * Rates for the currencies the provider lists, as it quotes them: units per
+   * USD unless the provider inverts some or all of them, which the consensus
+   * detects. Currencies it does not list are left out; a failed request throws.
+   */
+  fetchRates(codes: string[]): Promise<Record<string, number>>;
+}
+
+async function getJson<T>(provider: string, url: string): Promise<T> {
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`${provider} API error: ${response.status} ${response.statusText}`);
+  }
+  return await response.json() as T;
+}
+
+function pick(codes: string[], rate: (code: string) => unknown): Record<string, number> {
+  const rates: Record<string, number> = {};
+  for (const code of codes) {
+    const value = rate(code);
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) rates[code] = value;
+  }
+  return rates;
+}
+
+interface ExchangeRateHostResponse {
+  success: boolean;
+  error?: { info?: string };
+  quotes?: { [pair: string]: number }; // USDEUR, ...
+}
+
+export const exchangeRateHostProvider: FxRateProvider = {
+  id: 'exchangerate-host',
+  description: 'exchangerate.host live rates, needs EXCHANGERATE_HOST_ACCESS_KEY',
+  async fetchRates(codes) {
+    const key = process.env.EXCHANGERATE_HOST_ACCESS_KEY;
+    if (!key) {
+      throw new Error('EXCHANGERATE_HOST_ACCESS_KEY is not set');
+    }
+    const data = await getJson<ExchangeRateHostResponse>('exchangerate.host',
+      `https://api.exchangerate.host/live?access_key=${encodeURIComponent(key)}&source=USD&currencies=${codes.join(',')}`
+    );
+    if (!data?.success || !data.quotes || typeof data.quotes !== 'object') {
+      throw new Error(`Invalid exchangerate.host response: ${data?.error?.info ?? 'no quotes'}`);
+    }
+    return pick(codes, code => data.quotes![`USD${code}`]);
+  },
+};
+
+interface OpenErApiResponse {
+  result: string;
+  rates?: { [code: string]: number };
+}
+
+export const openErApiProvider: FxRateProvider = {
+  id: 'open-er-api',
+  description: 'ExchangeRate-API open access, daily',
+  async fetchRates(codes) {
+    const data = await getJson<OpenErApiResponse>('open.er-api.com', 'https://open.er-api.com/v6/latest/USD');
+    if (data?.result !== 'success' || !data.rates || typeof data.rates !== 'object') {
+      throw new Error('Invalid open.er-api.com response structure');
+    }
+    return pick(codes, code => data.rates![code]);
+  },
+};
+
+interface FrankfurterResponse {
+  base: string;
+  rates: { [code: string]: number };
+}
+
+export const frankfurterProvider: FxRateProvider = {
+  id: 'frankfurter',
+  description: 'Frankfurter, ECB reference rates for about 30 currencies',
+  async fetchRates(codes) {
+    const data = await getJson<FrankfurterResponse>('Frankfurter', 'https://api.frankfurter.app/latest?from=USD');
+    if (!data?.rates || typeof data.rates !== 'object') {
+      throw new Error('Invalid Frankfurter response structure');
+    }
+    return pick(codes, code => data.rates[code]);
+  },
+};
+
+interface CurrencyApiResponse {
+  date: string;
+  usd: { [code: string]: number }; // Lowercase codes
+}
+
+export const currencyApiProvider: FxRateProvider = {
+  id: 'currency-api',
+  description: 'fawazahmed0 currency-api on jsDelivr, daily',
+  async fetchRates(codes) {
+    const data = await getJson<CurrencyApiResponse>('currency-api',
+      'https://cdn.jsdelivr.net/npm/@fawazahmed0/currency-api@latest/v1/currencies/usd.json'
+    );
+    if (!data?.usd || typeof data.usd !== 'object') {
+      throw new Error('Invalid currency-api response structure');
+    }
+    return pick(codes, code => data.usd[code.toLowerCase()]);
+  },
+};
+
+/**
+ * Offline provider serving fixed rates, or whatever `source` returns on each call
+ */
+export function createMockFxRateProvider(
+  id: string,
+  source: Record<string, number> | (() => Promise<Record<string, number>>)
+): FxRateProvider {
+  return {
+    id,
+    description: 'Mock provider with local rates',
+    async fetchRates(codes) {
+      const rates = typeof source === 'function' ? await source() : source;
+      return pick(codes, code => rates[code]);
+    },
+  };
+}
+
+/**
+ * One mock provider per top-level key of mock_fx_rates.json, named mock-<key>,
+ * each mapping currency codes to rates. The file is re-read on every fetch so
+ * rates can be edited while the server runs.
+ */
+export async function loadMockFxRateProviders(): Promise<FxRateProvider[]> {
+  if (!await FileManager.exists(MOCK_FX_RATES_FILE)) return [];
+  const file = await FileManager.readJson<Record<string, Record<string, number>>>(MOCK_FX_RATES_FILE) || {};
+  return Object.keys(file).map(key => createMockFxRateProvider(`mock-${key}`, async () => {
+    const current = await FileManager.readJson<Record<string, Record<string, number>>>(MOCK_FX_RATES_FILE);
+    if (!current?.[key]) throw new Error(`No rates for mock-${key} in ${MOCK_FX_RATES_FILE}`);
+    return current[key];
+  }));
+}
+
+const registry = new Map<string, FxRateProvider>();
+
+export function registerFxRateProvider(provider: FxRateProvider): void {
+  registry.set(provider.id, provider);
+}
+
+export function getFxRateProvider(id: string): FxRateProvider {
+  const provider = registry.get(id);
+  if (!provider) {
+    throw new Error(`Unknown FX rate provider "${id}". Available: ${Array.from(registry.keys()).join(', ')}, mock`);
+  }
+  return provider;
+}
+
+export function listFxRateProviders(): FxRateProvider[] {
+  return Array.from(registry.values());
+}
+
+registerFxRateProvider(exchangeRateHostProvider);
+registerFxRateProvider(openErApiProvider);
+registerFxRateProvider(frankfurterProvider);
+registerFxRateProvider(currencyApiProvider);
@@ -0,0 +1,232 @@
+import { FileManager } from '../utils/file-manager';
+import { getFxRateProvider, loadMockFxRateProviders, type FxRateProvider } from './fx-providers';
+
+export const FX_CONSENSUS_LOG_FILE = 'fx_consensus_log.json';
+
+const MAX_CONSENSUS_ROUNDS = 500;
+
+export interface FxConsensusSettings {
+  providers: string[];   // Provider ids; "mock" expands to the providers in mock_fx_rates.json
+  quorum: number;        // Agreeing providers needed to rate a currency, capped at the number configured
+  max_deviation: number; // Relative distance from the cross-provider median beyond which a rate is excluded
+}
+
+const SETTINGS: FxConsensusSettings = {
+  providers: (process.env.FX_RATE_PROVIDERS ||
+    `${process.env.EXCHANGERATE_HOST_ACCESS_KEY ? 'exchangerate-host,' : ''}open-er-api,frankfurter,currency-api`
+  ).split(',').map(id => id.trim()).filter(Boolean),
+  quorum: parseInt(process.env.FX_PROVIDER_QUORUM || '', 10) || 2,
+  max_deviation: parseFloat(process.env.FX_PROVIDER_MAX_DEVIATION || '') || 0.02,
+};
+
+export interface FxConsensusRate {
+  rate: number;        // Units per USD
+  providers: string[]; // Providers whose rates made the consensus
+}
+
+export interface FxProviderReport {
+  provider: string;
+  ok: boolean;
+  error: string | null;
+  quoted: number;                      // Currencies the provider returned a rate for
+  inverted: boolean;                   // Quotes USD per unit throughout; all its rates were inverted
+  inverted_codes: string[];            // Single rates quoted against the provider's own convention, inverted
+  deviations: Record<string, number>;  // Signed, relative to the consensus rate (or the median where unrated)
+  excluded: string[];                  // Currencies whose rate was beyond max_deviation
+  mean_abs_deviation: number | null;
+}
+
+export interface FxConsensusRound {
+  timestamp: string;
+  quorum: number;
+  providers: FxProviderReport[];
+  unrated: Record<string, string>; // Currency → why no consensus was reached
+}
+
+export interface FxConsensusResult {
+  rates: Record<string, FxConsensusRate>;
+  round: FxConsensusRound;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function relativeDistance(value: number, reference: number): number {
+  return Math.abs(value - reference) / reference;
+}
+
+/**
+ * Whether a provider quotes USD per unit rather than units per USD. Each rate
+ * votes for the reading closer to the reference in log space, weighted by how
+ * far the reference is from parity, so currencies near 1 USD carry little say.
+ */
+function quotesInverted(rates: Record<string, number>, reference: Record<string, number>): boolean {
+  let direct = 0;
+  let inverted = 0;
+  for (const [code, rate] of Object.entries(rates)) {
+    const expected = reference[code];
+    if (!(expected > 0)) continue;
+    const weight = Math.abs(Math.log(expected));
+    if (Math.abs(Math.log(rate / expected)) <= Math.abs(Math.log(1 / rate / expected))) {
+      direct += weight;
+    } else {
+      inverted += weight;
+    }
+  }
+  return inverted > direct;
+}
+
+/**
+ * Combines the rates of several FX providers into one rate per currency, in
+ * units per USD. Each provider's quote convention is detected against the
+ * reference rates (the last good rates) and inverted where needed, as is any
+ * single rate whose reciprocal matches the reference when the rate itself
+ * does not. Rates further than max_deviation from the cross-provider median
+ * are excluded; a currency is rated by the median of at least `quorum`
+ * agreeing providers. Every round is logged with each provider's deviation.
+ */
+class FxRateConsensusService {
+  getSettings(): FxConsensusSettings {
+    return SETTINGS;
+  }
+
+  async getProviders(): Promise<FxRateProvider[]> {
+    const providers: FxRateProvider[] = [];
+    for (const id of SETTINGS.providers) {
+      if (id === 'mock') {
+        providers.push(...await loadMockFxRateProviders());
+      } else {
+        providers.push(getFxRateProvider(id));
+      }
+    }
+    return providers;
+  }
+
+  /**
+   * Consensus log, most recent first
+   */
+  async getRounds(limit: number = 100): Promise<FxConsensusRound[]> {
+    const rounds = await FileManager.readJson<FxConsensusRound[]>(FX_CONSENSUS_LOG_FILE) || [];
+    return rounds.slice(-limit).reverse();
+  }
+
+  /**
+   * Queries every provider for `codes` (USD excluded) and returns the
+   * consensus rates. Throws when no provider answered; currencies without a
+   * quorum are left out of `rates`.
+   */
+  async refresh(codes: string[], reference: Record<string, number> = {}, providers?: FxRateProvider[]): Promise<FxConsensusResult> {
+    const sources = providers ?? await this.getProviders();
+    if (sources.length === 0) {
+      throw new Error('No FX rate providers configured');
+    }
+
+    const quorum = Math.min(SETTINGS.quorum, sources.length);
+    const responses = await Promise.allSettled(sources.map(provider => provider.fetchRates(codes)));
+    const reports: FxProviderReport[] = sources.map((provider, i) => {
+      const response = responses[i];
+      return {
+        provider: provider.id,
+        ok: response.status === 'fulfilled',
+        error: response.status === 'rejected' ? String(response.reason?.message ?? response.reason) : null,
+        quoted: response.status === 'fulfilled' ? Object.keys(response.value).length : 0,
+        inverted: false,
+        inverted_codes: [],
+        deviations: {},
+        excluded: [],
+        mean_abs_deviation: null,
+      };
+    });
+
+    for (const report of reports.filter(r => r.error)) {
+      console.warn(`FX rate provider ${report.provider} failed: ${report.error}`);
+    }
+    if (reports.every(report => !report.ok)) {
+      await this.logRound(reports, quorum, {});
+      throw new Error(`All FX rate providers failed: ${reports.map(r => `${r.provider}: ${r.error}`).join('; ')}`);
+    }
+
+    // Units per USD, after each provider's convention
+    const normalized = sources.map((provider, i) => {
+      const response = responses[i];
+      if (response.status !== 'fulfilled') return {};
+      reports[i].inverted = quotesInverted(response.value, reference);
+      return Object.fromEntries(Object.entries(response.value).map(([code, rate]) => [code, reports[i].inverted ? 1 / rate : rate]));
+    });
+
+    const rates: Record<string, FxConsensusRate> = {};
+    const unrated: Record<string, string> = {};
+
+    for (const code of codes) {
+      const offered = normalized.flatMap((quotes, i) => quotes[code] !== undefined ? [{ report: reports[i], rate: quotes[code] }] : []);
+      if (offered.length === 0) {
+        unrated[code] = 'No provider quoted it';
+        continue;
+      }
+
+      // Single rates quoted the other way round
+      const expected = reference[code] > 0 ? reference[code] : median(offered.map(o => o.rate));
+      for (const quote of offered) {
+        if (relativeDistance(quote.rate, expected) > SETTINGS.max_deviation &&
+            relativeDistance(1 / quote.rate, expected) <= SETTINGS.max_deviation) {
+          quote.rate = 1 / quote.rate;
+          quote.report.inverted_codes.push(code);
+        }
+      }
+
+      const middle = median(offered.map(o => o.rate));
+      const agreeing = offered.filter(o => relativeDistance(o.rate, middle) <= SETTINGS.max_deviation);
+      for (const { report } of offered.filter(o => !agreeing.includes(o))) {
+        report.excluded.push(code);
+      }
+
+      let rate = middle;
+      if (agreeing.length < quorum) {
+        unrated[code] = `${agreeing.length} of ${quorum} required providers agree`;
+      } else {
+        rate = median(agreeing.map(o => o.rate));
+        rates[code] = { rate, providers: agreeing.map(o => o.report.provider) };
+      }
+
+      for (const { report, rate: quoted } of offered) {
+        report.deviations[code] = (quoted - rate) / rate;
+      }
+    }
+
+    for (const report of reports) {
+      const deviations = Object.values(report.deviations);
+      report.mean_abs_deviation = deviations.length > 0
+        ? deviations.reduce((sum, d) => sum + Math.abs(d), 0) / deviations.length
+        : null;
+      if (report.inverted) {
+        console.warn(`FX rate provider ${report.provider} quotes USD per unit; its rates were inverted`);
+      }
+      if (report.inverted_codes.length > 0) {
+        console.warn(`FX rate provider ${report.provider} quoted ${report.inverted_codes.join(', ')} inverted`);
+      }
+      if (report.excluded.length > 0) {
+        console.warn(`FX rate provider ${report.provider} excluded for ${report.excluded.join(', ')}: beyond ${SETTINGS.max_deviation * 100}% of the median`);
+      }
+    }
+
+    return { rates, round: await this.logRound(reports, quorum, unrated) };
+  }
+
+  private async logRound(reports: FxProviderReport[], quorum: number, unrated: Record<string, string>): Promise<FxConsensusRound> {
+    const round: FxConsensusRound = {
+      timestamp: new Date().toISOString(),
+      quorum,
+      providers: reports,
+      unrated,
+    };
+    await FileManager.update<FxConsensusRound[]>(FX_CONSENSUS_LOG_FILE, rounds =>
+      [...(Array.isArray(rounds) ? rounds : []), round].slice(-MAX_CONSENSUS_ROUNDS)
+    );
+    return round;
+  }
+}
+
+export const fxRateConsensusService = new FxRateConsensusService();
@@ -0,0 +1,246 @@
+import { FileManager, type FileWrite } from '../utils/file-manager';
+import type { HistoryEntry } from './avgx-calculator';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+export type HistoryTierName = 'raw' | '1m' | '1h' | '1d';
+
+export interface HistoryTier {
+  name: HistoryTierName;
+  file: string;
+  resolutionMs: number; // Bucket width, 0 for raw ticks
+  retentionMs: number;  // How long entries are kept in this tier
+}
+
+// Rolled-up bucket. The HistoryEntry fields hold the closing values of the bucket
+export interface HistoryBucket extends HistoryEntry {
+  open: number;
+  high: number;
+  low: number;
+  samples: number;
+}
+
+/**
+ * Tiers of one series, stored as <prefix>.json, <prefix>_1m.json and so on,
+ * ordered from finest to coarsest
+ */
+export function historyTiers(prefix: string): HistoryTier[] {
+  return [
+    { name: 'raw', file: `${prefix}.json`, resolutionMs: 0, retentionMs: 2 * DAY },
+    { name: '1m', file: `${prefix}_1m.json`, resolutionMs: MINUTE, retentionMs: 14 * DAY },
+    { name: '1h', file: `${prefix}_1h.json`, resolutionMs: HOUR, retentionMs: 400 * DAY },
+    { name: '1d', file: `${prefix}_1d.json`, resolutionMs: DAY, retentionMs: 10 * 365 * DAY },
+  ];
+}
+
+// The flagship AVGX series
+export const HISTORY_TIERS: HistoryTier[] = historyTiers('history');
+
+// Upper bound on points returned for a range before falling back to a coarser tier
+const MAX_POINTS = 2500;
+
+export class HistoryRetentionService {
+  private initialization: Promise<void> | null = null;
+
+  constructor(private readonly tiers: HistoryTier[] = HISTORY_TIERS) {}
+
+  /**
+   * Backfills any missing rollup tier from the raw history so that entries
+   * written before tiering existed survive the first raw-tier prune
+   */
+  async initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.backfill().catch(error => {
+        this.initialization = null;
+        throw error;
+      });
+    }
+    return this.initialization;
+  }
+
+  /**
+   * Forgets the backfill so it runs again against the tier files now on disk
+   */
+  reset(): void {
+    this.initialization = null;
+  }
+
+  private async backfill(): Promise<void> {
+    const raw = (await this.readTier(this.tiers[0]))
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+    for (const tier of this.tiers.slice(1)) {
+      await FileManager.update<HistoryBucket[]>(tier.file, existing => {
+        if (existing) return undefined;
+
+        const buckets: HistoryBucket[] = [];
+        for (const entry of raw) {
+          this.addToBuckets(buckets, entry, tier.resolutionMs);
+        }
+        console.log(`Backfilled ${buckets.length} ${tier.name} history buckets into ${tier.file}`);
+        return this.prune(buckets, tier);
+      });
+    }
+  }
+
+  /**
+   * Records a tick in the raw tier and rolls it up into every bucketed tier
+   */
+  async record(entry: HistoryEntry): Promise<void> {
+    try {
+      await FileManager.writeMany(await this.prepareRecord(entry));
+    } catch (error) {
+      console.error('Failed to record history entry:', error);
+    }
+  }
+
+  /**
+   * Every tier file as it is once the tick is recorded, for callers that
+   * write them in one batch with their own files. Ticks are published one at
+   * a time, so nothing else writes the tiers in between.
+   */
+  async prepareRecord(entry: HistoryEntry): Promise<FileWrite[]> {
+    await this.initialize();
+
+    const writes: FileWrite[] = [];
+    for (const tier of this.tiers) {
+      const entries = await FileManager.readJsonStrict<HistoryEntry[]>(tier.file) || [];
+      if (tier.resolutionMs === 0) {
+        entries.push(entry);
+      } else {
+        this.addToBuckets(entries as HistoryBucket[], entry, tier.resolutionMs);
+      }
+      writes.push({ filename: tier.file, data: this.prune(entries, tier) });
+    }
+    return writes;
+  }
+
+  /**
+   * Picks the finest tier that still retains the start of the range without
+   * exceeding MAX_POINTS
+   */
+  selectTier(from: Date, to: Date = new Date()): HistoryTier {
+    const span = Math.max(0, to.getTime() - from.getTime());
+    const oldestNeeded = from.getTime();
+
+    for (const tier of this.tiers) {
+      const retainedSince = Date.now() - tier.retentionMs;
+      const points = tier.resolutionMs > 0 ? span / tier.resolutionMs : 0;
+      if (oldestNeeded >= retainedSince && points <= MAX_POINTS) {
+        return tier;
+      }
+    }
+
+    return this.tiers[this.tiers.length - 1];
+  }
+
+  /**
+   * Returns history entries within [from, to] from the most suitable tier, oldest first
+   */
+  async getRange(from: Date, to: Date = new Date()): Promise<{ tier: HistoryTier; entries: HistoryEntry[] }> {
+    await this.initialize();
+
+    const tier = this.selectTier(from, to);
+    const entries = (await this.readTier(tier))
+      .filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        return time >= from.getTime() && time <= to.getTime();
+      })
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+    return { tier, entries };
+  }
+
+  /**
+   * Value as of the given time: the latest entry observed at or before it,
+   * ignoring entries older than the tolerance. A bucket counts as observed at
+   * its end, since its values are the closing values.
+   */
+  async getValueAt(at: Date, toleranceMs: number): Promise<HistoryEntry | undefined> {
+    await this.initialize();
+
+    const tier = this.selectTier(at, at);
+    const observedAt = (entry: HistoryEntry) => new Date(entry.timestamp).getTime() + tier.resolutionMs;
+
+    let best: HistoryEntry | undefined;
+    for (const entry of await this.readTier(tier)) {
+      const time = observedAt(entry);
+      if (time > at.getTime() || time < at.getTime() - toleranceMs) continue;
+      if (!best || time > observedAt(best)) best = entry;
+    }
+    return best;
+  }
+
+  /**
+   * Oldest value still retained in any tier, with bucket entries reporting their opening value
+   */
+  async getFirst(): Promise<HistoryEntry | undefined> {
+    await this.initialize();
+
+    let first: HistoryEntry | undefined;
+    for (const tier of this.tiers) {
+      for (const entry of await this.readTier(tier)) {
+        if (!first || new Date(entry.timestamp) < new Date(first.timestamp)) {
+          const open = (entry as HistoryBucket).open;
+          first = open !== undefined ? { ...entry, avgx_usd: open } : entry;
+        }
+      }
+    }
+    return first;
+  }
+
+  /**
+   * Most recent raw tick, if any
+   */
+  async getLatest(): Promise<HistoryEntry | undefined> {
+    const raw = await this.readTier(this.tiers[0]);
+    return raw.reduce<HistoryEntry | undefined>((latest, entry) =>
+      !latest || new Date(entry.timestamp) > new Date(latest.timestamp) ? entry : latest, undefined);
+  }
+
+  private async readTier(tier: HistoryTier): Promise<HistoryEntry[]> {
+    return await FileManager.readJson<HistoryEntry[]>(tier.file) || [];
+  }
+
+  private addToBuckets(buckets: HistoryBucket[], entry: HistoryEntry, resolutionMs: number): void {
+    const entryTime = new Date(entry.timestamp).getTime();
+    const bucketStart = Math.floor(entryTime / resolutionMs) * resolutionMs;
+    const bucketTimestamp = new Date(bucketStart).toISOString();
+
+    // Ticks arrive in order, so the matching bucket is almost always the last one
+    let index = buckets.length - 1;
+    while (index >= 0 && new Date(buckets[index].timestamp).getTime() > bucketStart) {
+      index--;
+    }
+
+    const bucket = index >= 0 ? buckets[index] : undefined;
+    if (bucket && bucket.timestamp === bucketTimestamp) {
+      bucket.high = Math.max(bucket.high, entry.avgx_usd);
+      bucket.low = Math.min(bucket.low, entry.avgx_usd);
+      bucket.samples += 1;
+      bucket.avgx_usd = entry.avgx_usd;
+      bucket.wf_value = entry.wf_value;
+      bucket.wc_value = entry.wc_value;
+      return;
+    }
+
+    buckets.splice(index + 1, 0, {
+      timestamp: bucketTimestamp,
+      avgx_usd: entry.avgx_usd,
+      wf_value: entry.wf_value,
+      wc_value: entry.wc_value,
+      open: entry.avgx_usd,
+      high: entry.avgx_usd,
+      low: entry.avgx_usd,
+      samples: 1,
+    });
+  }
+
+  private prune<T extends HistoryEntry>(entries: T[], tier: HistoryTier): T[] {
+    const cutoff = Date.now() - tier.retentionMs;
+    return entries.filter(entry => new Date(entry.timestamp).getTime() >= cutoff);
+  }
+}
+
+export const historyRetentionService = new HistoryRetentionService();
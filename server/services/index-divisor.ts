@@ -0,0 +1,134 @@
+import { FileManager } from '../utils/file-manager';
+import type { IndexMethodology } from './index-methodology';
+import {
+  buildCalculationRecord,
+  UNIT_DIVISORS,
+  type CalculationInputs,
+  type CalculationRecord,
+  type IndexDivisors,
+} from './calculation-record';
+
+export const DIVISOR_ADJUSTMENTS_FILE = 'divisor_adjustments.json';
+
+export interface WeightChange {
+  key: string;           // Currency code or CoinGecko id
+  from: number | null;   // null when the constituent was added
+  to: number | null;     // null when the constituent was removed
+}
+
+export interface DivisorAdjustment {
+  timestamp: string;
+  before: IndexDivisors;
+  after: IndexDivisors;
+  changes: { fiat: WeightChange[]; crypto: WeightChange[] };
+  avgx_old_basket: number; // Unclamped value under the outgoing baskets
+  avgx_new_basket: number; // Unclamped value under the incoming baskets, after linking
+}
+
+export interface DivisorLink {
+  divisors: IndexDivisors;
+  adjustment: DivisorAdjustment | null;
+}
+
+function weightChanges<T extends { weight: number }>(before: T[], after: T[], key: (entry: T) => string): WeightChange[] {
+  const keys = Array.from(new Set([...before.map(key), ...after.map(key)]));
+  return keys.flatMap(k => {
+    const from = before.find(e => key(e) === k)?.weight ?? null;
+    const to = after.find(e => key(e) === k)?.weight ?? null;
+    return from === to ? [] : [{ key: k, from, to }];
+  });
+}
+
+/**
+ * Chain-links the baskets in `inputs` to those of the previous record.
+ *
+ * When constituents or weights change, both baskets are valued at the same
+ * prices (the current ones, or the previous record's for a removed
+ * constituent). The leg divisors absorb the difference, so WF_raw and WC_raw,
+ * and with them the EWMA state, continue at the level of the old baskets.
+ * The index divisor then absorbs whatever the methodology still moves, e.g.
+ * for weight-normalized methodologies the leg divisors have no effect on.
+ */
+export function linkDivisors(
+  timestamp: string,
+  inputs: CalculationInputs,
+  previous: CalculationRecord | null,
+  config: CalculationRecord['config'],
+  methodology: IndexMethodology
+): DivisorLink {
+  if (!previous) return { divisors: UNIT_DIVISORS, adjustment: null };
+
+  const before = previous.inputs.divisors ?? UNIT_DIVISORS;
+  const changes = {
+    fiat: weightChanges(previous.inputs.fiat, inputs.fiat, f => f.code),
+    crypto: weightChanges(previous.inputs.crypto, inputs.crypto, c => c.id),
+  };
+  if (changes.fiat.length === 0 && changes.crypto.length === 0) {
+    return { divisors: before, adjustment: null };
+  }
+
+  // The outgoing baskets at today's prices where available
+  const rates = new Map(inputs.fiat.map(f => [f.code, f.rate]));
+  const prices = new Map(inputs.crypto.map(c => [c.id, c.price]));
+  const oldFiat = previous.inputs.fiat.map(f => ({ ...f, rate: rates.get(f.code) ?? f.rate }));
+  const oldCrypto = previous.inputs.crypto.map(c => ({ ...c, price: prices.get(c.id) ?? c.price }));
+
+  const value = (basket: Array<{ weight: number }>, price: (entry: any) => number) =>
+    basket.reduce((sum, entry) => sum + price(entry) * entry.weight, 0);
+
+  const fiatRatio = changes.fiat.length > 0
+    ? value(inputs.fiat, f => f.rate) / value(oldFiat, f => f.rate)
+    : 1;
+  const cryptoRatio = changes.crypto.length > 0
+    ? value(inputs.crypto, c => c.price) / value(oldCrypto, c => c.price)
+    : 1;
+  if (!(fiatRatio > 0) || !(cryptoRatio > 0)) {
+    // An empty or unpriced basket cannot be linked; keep the divisors as they are
+    console.warn('Basket change could not be chain-linked, keeping the current divisors');
+    return { divisors: before, adjustment: null };
+  }
+
+  const legLinked: IndexDivisors = {
+    fiat: before.fiat * fiatRatio,
+    crypto: before.crypto * cryptoRatio,
+    index: before.index,
+  };
+
+  const oldBaskets = buildCalculationRecord(timestamp, { ...inputs, fiat: oldFiat, crypto: oldCrypto, divisors: before }, config, methodology);
+  const newBaskets = buildCalculationRecord(timestamp, { ...inputs, divisors: legLinked }, config, methodology);
+  const after: IndexDivisors = {
+    ...legLinked,
+    index: before.index * (newBaskets.intermediates.avgx_unclamped / oldBaskets.intermediates.avgx_unclamped),
+  };
+
+  return {
+    divisors: after,
+    adjustment: {
+      timestamp,
+      before,
+      after,
+      changes,
+      avgx_old_basket: oldBaskets.intermediates.avgx_unclamped,
+      avgx_new_basket: newBaskets.intermediates.avgx_unclamped,
+    },
+  };
+}
+
+class IndexDivisorService {
+  async getAdjustments(): Promise<DivisorAdjustment[]> {
+    return await FileManager.readJson<DivisorAdjustment[]>(DIVISOR_ADJUSTMENTS_FILE) || [];
+  }
+
+  /**
+   * Appends an adjustment to the audit log. Adjustments are rare, so all of them are kept.
+   */
+  async record(adjustment: DivisorAdjustment): Promise<void> {
+    await FileManager.update<DivisorAdjustment[]>(DIVISOR_ADJUSTMENTS_FILE, adjustments => [
+      ...(Array.isArray(adjustments) ? adjustments : []),
+      adjustment,
+    ]);
+    console.log(`Index divisors adjusted for a basket change: fiat ${adjustment.after.fiat.toFixed(6)}, crypto ${adjustment.after.crypto.toFixed(6)}, index ${adjustment.after.index.toFixed(6)}`);
+  }
+}
+
+export const indexDivisorService = new IndexDivisorService();
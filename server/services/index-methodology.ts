@@ -0,0 +1,148 @@
+export interface MethodologyInputs {
+  fiat: Array<{ code: string; rate: number; weight: number }>;
+  crypto: Array<{ id: string; price: number; weight: number }>;
+  wf_raw: number;        // sum(rate * weight) over the fiat basket
+  wc_raw: number;        // sum(price * weight) over the crypto basket
+  wf_smoothed: number;   // EWMA of wf_raw
+  wc_smoothed: number;   // EWMA of wc_raw
+  volatility_index: number; // σ_t in [0,1]
+  wc_adjusted: number;   // wc_smoothed * (1 - σ_t)
+}
+
+export interface IndexMethodology {
+  id: string;
+  version: string;
+  description: string;
+  applyClamp: boolean; // Whether the daily movement clamp is applied to the result
+  compute(inputs: MethodologyInputs): number;
+}
+
+export interface MethodologyInfo {
+  id: string;
+  version: string;
+}
+
+function weightedAverage<T>(items: T[], value: (item: T) => number, weight: (item: T) => number): number {
+  let weightedSum = 0;
+  let totalWeight = 0;
+  for (const item of items) {
+    weightedSum += value(item) * weight(item);
+    totalWeight += weight(item);
+  }
+  if (totalWeight === 0) {
+    throw new Error('Invalid basket weights');
+  }
+  return weightedSum / totalWeight;
+}
+
+/**
+ * Caps every weight at maxWeight and hands the excess to the uncapped assets
+ * in proportion to their weights, repeating until no weight exceeds the cap
+ */
+export function capWeights(weights: number[], maxWeight: number): number[] {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) return weights;
+
+  let capped = weights.map(w => w / total);
+  for (let i = 0; i < weights.length; i++) {
+    const over = capped.filter(w => w > maxWeight);
+    if (over.length === 0) break;
+
+    const excess = over.reduce((sum, w) => sum + (w - maxWeight), 0);
+    const uncappedTotal = capped.filter(w => w < maxWeight).reduce((sum, w) => sum + w, 0);
+    if (uncappedTotal === 0) break;
+
+    capped = capped.map(w => w >= maxWeight ? maxWeight : w + excess * (w / uncappedTotal));
+  }
+  return capped;
+}
+
+// AVGX(t) = sqrt( WF_smoothed(t) * WC_smoothed(t) * (1 - σ_t) )
+export const stabilityMethodology: IndexMethodology = {
+  id: 'stability',
+  version: '1.0.0',
+  description: 'EWMA-smoothed baskets with volatility-adjusted crypto leg and daily clamp',
+  applyClamp: true,
+  compute: (inputs) => Math.sqrt(inputs.wf_smoothed * inputs.wc_adjusted),
+};
+
+// Same as AVGXCalculator.currentIndex(): sqrt(WF * WC) over weight-normalized baskets, no smoothing
+export const rawGeometricMethodology: IndexMethodology = {
+  id: 'raw-geometric',
+  version: '1.0.0',
+  description: 'Unsmoothed geometric mean of weight-normalized baskets, matching the on-chain calculator',
+  applyClamp: false,
+  compute: (inputs) => Math.sqrt(
+    weightedAverage(inputs.fiat, f => f.rate, f => f.weight) *
+    weightedAverage(inputs.crypto, c => c.price, c => c.weight)
+  ),
+};
+
+// The legs on their own, published as the AVGX-WF and AVGX-WC sub-indices
+export const fiatLegMethodology: IndexMethodology = {
+  id: 'fiat-leg',
+  version: '1.0.0',
+  description: 'EWMA-smoothed fiat basket WF with daily clamp',
+  applyClamp: true,
+  compute: (inputs) => inputs.wf_smoothed,
+};
+
+export const cryptoLegMethodology: IndexMethodology = {
+  id: 'crypto-leg',
+  version: '1.0.0',
+  description: 'EWMA-smoothed, volatility-adjusted crypto basket WC with daily clamp',
+  applyClamp: true,
+  compute: (inputs) => inputs.wc_adjusted,
+};
+
+export function createArithmeticBlendMethodology(fiatShare: number = 0.5): IndexMethodology {
+  return {
+    id: 'arithmetic-blend',
+    version: '1.0.0',
+    description: `Arithmetic blend of the smoothed legs: ${fiatShare} * WF + ${1 - fiatShare} * WC_adjusted`,
+    applyClamp: true,
+    compute: (inputs) => fiatShare * inputs.wf_smoothed + (1 - fiatShare) * inputs.wc_adjusted,
+  };
+}
+
+export function createCappedWeightMethodology(maxCryptoWeight: number = 0.35): IndexMethodology {
+  return {
+    id: 'capped-weight',
+    version: '1.0.0',
+    description: `Stability formula with no crypto constituent above ${maxCryptoWeight * 100}% of the basket`,
+    applyClamp: true,
+    compute: (inputs) => {
+      // Rescale the smoothed crypto leg by how much the cap moves the raw basket
+      const capped = capWeights(inputs.crypto.map(c => c.weight), maxCryptoWeight);
+      const wcCapped = inputs.crypto.reduce((sum, c, i) => sum + c.price * capped[i], 0)
+        * inputs.crypto.reduce((sum, c) => sum + c.weight, 0);
+      const ratio = inputs.wc_raw > 0 ? wcCapped / inputs.wc_raw : 1;
+      return Math.sqrt(inputs.wf_smoothed * inputs.wc_adjusted * ratio);
+    },
+  };
+}
+
+const registry = new Map<string, IndexMethodology>();
+
+export function registerMethodology(methodology: IndexMethodology): void {
+  registry.set(methodology.id, methodology);
+}
+
+export function getMethodology(id: string): IndexMethodology {
+  const methodology = registry.get(id);
+  if (!methodology) {
+    throw new Error(`Unknown index methodology "${id}". Available: ${Array.from(registry.keys()).join(', ')}`);
+  }
+  return methodology;
+}
+
+export function listMethodologies(): IndexMethodology[] {
+  return Array.from(registry.values());
+}
+
+registerMethodology(stabilityMethodology);
+registerMethodology(rawGeometricMethodology);
+registerMethodology(createArithmeticBlendMethodology());
+registerMethodology(createCappedWeightMethodology());
+registerMethodology(fiatLegMethodology);
+registerMethodology(cryptoLegMethodology);
@@ -0,0 +1,110 @@
+import { avgxCalculatorService } from './avgx-calculator';
+import { basketScheduleService } from './basket-schedule';
+import { subIndexService } from './sub-indices';
+import { customIndexService } from './custom-indices';
+
+const DEFAULT_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Publishes the AVGX index on a fixed cadence, aligned to interval boundaries,
+ * so the EWMA advances once per interval regardless of API traffic
+ */
+class IndexScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs = DEFAULT_INTERVAL_MS;
+  private lastTickAt: string | null = null;
+  private lastError: string | null = null;
+  private ticking: Promise<void> | null = null;
+
+  async start(intervalMs: number = parseInt(process.env.INDEX_PUBLISH_INTERVAL_MS || '', 10) || DEFAULT_INTERVAL_MS): Promise<void> {
+    this.stop();
+    this.intervalMs = intervalMs;
+
+    console.log(`Publishing AVGX index every ${intervalMs / 1000}s`);
+    await this.tick();
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Stops the schedule and waits for a tick in progress to finish. Returns
+   * whether it was running, so the caller knows to start it again.
+   */
+  async pause(): Promise<boolean> {
+    const running = this.timer !== null;
+    this.stop();
+    await this.ticking;
+    return running;
+  }
+
+  /**
+   * Starts again at the interval in use before pause()
+   */
+  async resume(): Promise<void> {
+    return this.start(this.intervalMs);
+  }
+
+  /**
+   * Switches to any basket version that became effective, then publishes one
+   * tick of AVGX, its sub-indices and the custom indices. Every stored tick
+   * goes to history; the retention tiers do the downsampling. Sub-indices
+   * only advance while publication is live or degraded.
+   */
+  async tick(): Promise<void> {
+    this.ticking = this.publishTick().finally(() => {
+      this.ticking = null;
+    });
+    return this.ticking;
+  }
+
+  private async publishTick(): Promise<void> {
+    try {
+      await basketScheduleService.applyDue();
+    } catch (error) {
+      // Keep publishing with the basket in effect; the switch is retried next tick
+      console.error('Scheduled basket switch-over failed:', error);
+    }
+
+    try {
+      const result = await avgxCalculatorService.publishIndex();
+      this.lastTickAt = result.timestamp;
+      this.lastError = null;
+      // Frozen and halted ticks serve a held or unstored value; nothing downstream advances
+      const state = result.publication?.state;
+      if (state !== 'live' && state !== 'degraded') return;
+
+      const record = await avgxCalculatorService.getLatestRecord();
+      await subIndexService.publishAll(record);
+      await customIndexService.publishAll(record);
+    } catch (error: any) {
+      this.lastError = error.message || String(error);
+      console.error('Scheduled AVGX publication failed:', error);
+    }
+  }
+
+  getStatus() {
+    return {
+      running: this.timer !== null,
+      interval_ms: this.intervalMs,
+      last_tick_at: this.lastTickAt,
+      last_error: this.lastError,
+    };
+  }
+
+  private scheduleNext(): void {
+    // Wait for the next boundary; the next tick is only scheduled once this one finished
+    const delay = this.intervalMs - (Date.now() % this.intervalMs);
+    this.timer = setTimeout(async () => {
+      await this.tick();
+      if (this.timer) this.scheduleNext();
+    }, delay);
+  }
+}
+
+export const indexScheduler = new IndexScheduler();
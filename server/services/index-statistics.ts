@@ -0,0 +1,79 @@
+import { historyRetentionService, type HistoryBucket, type HistoryRetentionService } from './history-retention';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export type StatisticsPeriod = '1h' | '24h' | '7d' | '30d';
+
+const PERIODS: Record<StatisticsPeriod, { lengthMs: number; toleranceMs: number }> = {
+  '1h': { lengthMs: HOUR, toleranceMs: 30 * 60 * 1000 },
+  '24h': { lengthMs: DAY, toleranceMs: 2 * HOUR },
+  '7d': { lengthMs: 7 * DAY, toleranceMs: 12 * HOUR },
+  '30d': { lengthMs: 30 * DAY, toleranceMs: DAY },
+};
+
+export interface PeriodStatistics {
+  change: number | null;            // Percent change vs the reference point, null without one
+  reference_value: number | null;
+  reference_timestamp: string | null;
+  high: number;
+  low: number;
+}
+
+export interface IndexStatistics {
+  periods: Record<StatisticsPeriod, PeriodStatistics>;
+  since_inception: {
+    return: number | null;          // Percent return since the oldest retained value
+    inception_value: number | null;
+    inception_timestamp: string | null;
+  };
+}
+
+function percentChange(current: number, reference: number | undefined): number | null {
+  return reference && reference > 0 ? ((current - reference) / reference) * 100 : null;
+}
+
+/**
+ * Change, high and low for each period plus the since-inception return.
+ * Each change is measured against the value as of exactly one period ago,
+ * not against the first entry that happens to fall inside the window.
+ */
+export async function computeIndexStatistics(
+  currentValue: number,
+  timestamp: string,
+  retention: HistoryRetentionService = historyRetentionService
+): Promise<IndexStatistics> {
+  const now = new Date(timestamp);
+  const periods = {} as Record<StatisticsPeriod, PeriodStatistics>;
+
+  for (const [period, { lengthMs, toleranceMs }] of Object.entries(PERIODS) as Array<[StatisticsPeriod, typeof PERIODS[StatisticsPeriod]]>) {
+    const from = new Date(now.getTime() - lengthMs);
+    const [reference, { entries }] = await Promise.all([
+      retention.getValueAt(from, toleranceMs),
+      retention.getRange(from, now),
+    ]);
+
+    // Buckets carry their own extremes; raw ticks only their value
+    const highs = entries.map(e => (e as HistoryBucket).high ?? e.avgx_usd);
+    const lows = entries.map(e => (e as HistoryBucket).low ?? e.avgx_usd);
+
+    periods[period] = {
+      change: percentChange(currentValue, reference?.avgx_usd),
+      reference_value: reference?.avgx_usd ?? null,
+      reference_timestamp: reference?.timestamp ?? null,
+      high: Math.max(currentValue, ...highs),
+      low: Math.min(currentValue, ...lows),
+    };
+  }
+
+  const inception = await retention.getFirst();
+
+  return {
+    periods,
+    since_inception: {
+      return: percentChange(currentValue, inception?.avgx_usd),
+      inception_value: inception?.avgx_usd ?? null,
+      inception_timestamp: inception?.timestamp ?? null,
+    },
+  };
+}
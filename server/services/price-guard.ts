@@ -0,0 +1,188 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+
+export const PRICE_GUARD_CONFIG_FILE = 'price_guard_config.json';
+export const PRICE_GUARD_STATE_FILE = 'price_guard_state.json';
+export const PRICE_QUARANTINE_FILE = 'price_quarantine.json';
+
+const MAX_QUARANTINE_ENTRIES = 1000;
+
+const thresholdsSchema = z.object({
+  max_change: z.number().gt(0).lte(10),           // Relative move from the last good value, 0.25 = 25%
+  max_median_deviation: z.number().gt(0).lte(10), // Relative distance from the median of recent good values
+  median_window: z.number().int().min(3).max(500), // Good values kept per asset for the median
+  confirm_ticks: z.number().int().min(2).max(100), // Consecutive, mutually consistent rejections accepted as a real move
+}).strict();
+
+export const priceGuardConfigSchema = z.object({
+  fiat: thresholdsSchema,
+  crypto: thresholdsSchema,
+}).strict();
+
+export type PriceGuardConfig = z.infer<typeof priceGuardConfigSchema>;
+export type PriceKind = keyof PriceGuardConfig;
+
+export const DEFAULT_PRICE_GUARD_CONFIG: PriceGuardConfig = {
+  fiat: { max_change: 0.1, max_median_deviation: 0.15, median_window: 30, confirm_ticks: 5 },
+  crypto: { max_change: 0.25, max_median_deviation: 0.4, median_window: 30, confirm_ticks: 5 },
+};
+
+export interface QuarantineEntry {
+  timestamp: string;
+  kind: PriceKind;
+  key: string;               // Currency code or CoinGecko id
+  value: number;             // As returned by the provider
+  last_good: number | null;
+  median: number | null;
+  reason: string;
+  released: boolean;         // True when the value was accepted as a confirmed move
+}
+
+interface AssetState {
+  good: number[];     // Recent accepted values, newest last
+  pending: number[];  // Consecutive rejected values since the last accepted one
+}
+
+type PriceGuardState = Record<PriceKind, Record<string, AssetState>>;
+
+// What a fiat or crypto refresh could price live, for the publication state
+export interface PriceFeedStatus {
+  provider_ok: boolean;   // False when the provider request failed and the baseline was used throughout
+  stale: string[];        // Not priced live: missing from the response or quarantined
+  stale_weight: number;   // Share of the basket weight in stale assets
+  updated_at: string | null;
+}
+
+export function priceFeedStatus(providerOk: boolean, stale: string[], basket: Array<{ key: string; weight: number }>): PriceFeedStatus {
+  const total = basket.reduce((sum, entry) => sum + entry.weight, 0);
+  const staleWeight = basket.filter(entry => stale.includes(entry.key)).reduce((sum, entry) => sum + entry.weight, 0);
+  return {
+    provider_ok: providerOk,
+    stale,
+    stale_weight: total > 0 ? staleWeight / total : 0,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+export interface ScreenResult {
+  accepted: Record<string, number>;
+  quarantined: QuarantineEntry[];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function relativeDistance(value: number, reference: number): number {
+  return Math.abs(value - reference) / reference;
+}
+
+/**
+ * Screens provider prices before they reach the fiat and crypto caches. A
+ * value is quarantined when it is not a positive number, moved more than
+ * max_change from the last good value, or sits more than max_median_deviation
+ * from the rolling median. Quarantined assets fall back to their last good
+ * value. A run of confirm_ticks rejections that agree with each other is
+ * taken as a real move and accepted, so a devaluation cannot lock an asset out.
+ */
+class PriceGuardService {
+  async getConfig(): Promise<PriceGuardConfig> {
+    if (!await FileManager.exists(PRICE_GUARD_CONFIG_FILE)) return DEFAULT_PRICE_GUARD_CONFIG;
+
+    const parsed = priceGuardConfigSchema.safeParse(await FileManager.readJson(PRICE_GUARD_CONFIG_FILE));
+    if (!parsed.success) {
+      console.error(`Invalid ${PRICE_GUARD_CONFIG_FILE}, using the default thresholds:`, parsed.error.message);
+      return DEFAULT_PRICE_GUARD_CONFIG;
+    }
+    return parsed.data;
+  }
+
+  async updateConfig(config: PriceGuardConfig, actor: string): Promise<PriceGuardConfig> {
+    await FileManager.writeJson(PRICE_GUARD_CONFIG_FILE, config);
+    console.log(`Price guard thresholds updated by ${actor}`);
+    return config;
+  }
+
+  /**
+   * Quarantine log, most recent first
+   */
+  async getQuarantine(limit: number = 100): Promise<QuarantineEntry[]> {
+    const entries = await FileManager.readJson<QuarantineEntry[]>(PRICE_QUARANTINE_FILE) || [];
+    return entries.slice(-limit).reverse();
+  }
+
+  /**
+   * Returns the values that passed; the others are logged to the quarantine.
+   * `fallbacks` are last known good values (the baseline) used as the reference
+   * for assets the guard has not seen yet.
+   */
+  async screen(
+    kind: PriceKind,
+    values: Record<string, number>,
+    fallbacks: Record<string, number> = {},
+    now: Date = new Date()
+  ): Promise<ScreenResult> {
+    const thresholds = (await this.getConfig())[kind];
+    const accepted: Record<string, number> = {};
+    const quarantined: QuarantineEntry[] = [];
+
+    await FileManager.update<PriceGuardState>(PRICE_GUARD_STATE_FILE, current => {
+      const state: PriceGuardState = { fiat: {}, crypto: {}, ...current };
+      const assets = { ...state[kind] };
+
+      for (const [key, value] of Object.entries(values)) {
+        const fallback = fallbacks[key];
+        const asset = assets[key] ?? { good: Number.isFinite(fallback) && fallback > 0 ? [fallback] : [], pending: [] };
+        const lastGood = asset.good.length > 0 ? asset.good[asset.good.length - 1] : null;
+        const rollingMedian = median(asset.good);
+
+        let reason: string | null = null;
+        if (!Number.isFinite(value) || value <= 0) {
+          reason = 'Not a positive number';
+        } else if (lastGood !== null && relativeDistance(value, lastGood) > thresholds.max_change) {
+          reason = `Moved ${(relativeDistance(value, lastGood) * 100).toFixed(1)}% from the last good value, limit ${thresholds.max_change * 100}%`;
+        } else if (rollingMedian !== null && relativeDistance(value, rollingMedian) > thresholds.max_median_deviation) {
+          reason = `${(relativeDistance(value, rollingMedian) * 100).toFixed(1)}% from the rolling median, limit ${thresholds.max_median_deviation * 100}%`;
+        }
+
+        const entry = { timestamp: now.toISOString(), kind, key, value, last_good: lastGood, median: rollingMedian };
+        if (reason === null) {
+          accepted[key] = value;
+          assets[key] = { good: [...asset.good, value].slice(-thresholds.median_window), pending: [] };
+          continue;
+        }
+
+        const pending = Number.isFinite(value) && value > 0 ? [...asset.pending, value] : [];
+        const confirmed = pending.length >= thresholds.confirm_ticks &&
+          pending.every(p => relativeDistance(p, value) <= thresholds.max_change);
+        if (confirmed) {
+          // The market moved; restart the history from the new level
+          accepted[key] = value;
+          assets[key] = { good: [value], pending: [] };
+          quarantined.push({ ...entry, reason: `${reason}; accepted after ${pending.length} consistent ticks`, released: true });
+        } else {
+          assets[key] = { good: asset.good, pending: pending.slice(-thresholds.confirm_ticks) };
+          quarantined.push({ ...entry, reason, released: false });
+        }
+      }
+
+      return { ...state, [kind]: assets };
+    });
+
+    if (quarantined.length > 0) {
+      await FileManager.update<QuarantineEntry[]>(PRICE_QUARANTINE_FILE, entries =>
+        [...(Array.isArray(entries) ? entries : []), ...quarantined].slice(-MAX_QUARANTINE_ENTRIES)
+      );
+      for (const entry of quarantined) {
+        console.warn(`Price guard ${entry.released ? 'released' : 'quarantined'} ${entry.kind} ${entry.key} = ${entry.value}: ${entry.reason}`);
+      }
+    }
+
+    return { accepted, quarantined };
+  }
+}
+
+export const priceGuardService = new PriceGuardService();
@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import type { PriceFeedStatus } from './price-guard';
+
+export const PUBLICATION_FREEZE_FILE = 'publication_freeze.json';
+
+// Stale basket weight a leg may carry and still publish, as degraded
+const MAX_STALE_WEIGHT = parseFloat(process.env.INDEX_MAX_STALE_WEIGHT || '') || 0.25;
+// How old the served value may get before publication counts as halted
+const MAX_VALUE_AGE_MS = (parseInt(process.env.INDEX_MAX_VALUE_AGE_SECONDS || '', 10) || 6 * 60 * 60) * 1000;
+
+/**
+ * live      every constituent priced live and validated
+ * degraded  some constituents priced from the last good value, within MAX_STALE_WEIGHT
+ * frozen    not enough live data, publication failed or an admin froze the index;
+ *           the last published value is held and no new ticks are stored
+ * halted    there is no value to hold, or the held value is older than MAX_VALUE_AGE_MS
+ */
+export type PublicationState = 'live' | 'degraded' | 'frozen' | 'halted';
+
+export interface ManualFreeze {
+  by: string;
+  at: string;
+  reason: string;
+}
+
+export interface PublicationStatus {
+  state: PublicationState;
+  reasons: string[];
+  since: string;                  // When the index entered this state
+  value_timestamp: string | null; // Tick being served
+  manual_freeze: ManualFreeze | null;
+}
+
+export const freezeRequestSchema = z.object({
+  reason: z.string().trim().min(3).max(500),
+}).strict();
+
+export class IndexUnavailableError extends Error {
+  constructor(status: PublicationStatus) {
+    super(`AVGX is ${status.state}: ${status.reasons.join('; ')}`);
+    this.name = 'IndexUnavailableError';
+  }
+}
+
+class PublicationStateService {
+  private status: PublicationStatus = {
+    state: 'halted',
+    reasons: ['Nothing published yet'],
+    since: new Date().toISOString(),
+    value_timestamp: null,
+    manual_freeze: null,
+  };
+
+  /**
+   * Whether the next tick may be published, from the feeds of the latest
+   * refresh and any manual freeze. Returns the state a published tick gets.
+   */
+  async assess(fiat: PriceFeedStatus, crypto: PriceFeedStatus): Promise<{ state: PublicationState; reasons: string[] }> {
+    const freeze = await this.getManualFreeze();
+    this.status = { ...this.status, manual_freeze: freeze };
+    if (freeze) {
+      return { state: 'frozen', reasons: [`Frozen by ${freeze.by}: ${freeze.reason}`] };
+    }
+
+    const legs = [['Fiat', fiat], ['Crypto', crypto]] as const;
+    const frozen = legs.flatMap(([leg, feed]) => {
+      if (!feed.provider_ok) return [`${leg} provider unavailable`];
+      if (feed.stale_weight > MAX_STALE_WEIGHT) {
+        return [`${leg} basket ${(feed.stale_weight * 100).toFixed(1)}% stale, limit ${MAX_STALE_WEIGHT * 100}%`];
+      }
+      return [];
+    });
+    if (frozen.length > 0) return { state: 'frozen', reasons: frozen };
+
+    const degraded = legs.flatMap(([leg, feed]) =>
+      feed.stale.length > 0 ? [`${leg} priced from last good values: ${feed.stale.join(', ')}`] : []
+    );
+    return degraded.length > 0 ? { state: 'degraded', reasons: degraded } : { state: 'live', reasons: [] };
+  }
+
+  /**
+   * Records the outcome of a publication attempt
+   */
+  transition(state: PublicationState, reasons: string[], valueTimestamp: string | null): void {
+    if (state !== this.status.state) {
+      console.warn(`AVGX publication ${this.status.state} -> ${state}${reasons.length > 0 ? `: ${reasons.join('; ')}` : ''}`);
+    }
+    this.status = {
+      state,
+      reasons,
+      since: state === this.status.state ? this.status.since : new Date().toISOString(),
+      value_timestamp: valueTimestamp,
+      manual_freeze: this.status.manual_freeze,
+    };
+  }
+
+  /**
+   * Current state. A value that stopped advancing for too long is reported as halted.
+   */
+  getStatus(now: Date = new Date()): PublicationStatus {
+    const { value_timestamp } = this.status;
+    if (this.status.state !== 'halted' && value_timestamp &&
+        now.getTime() - new Date(value_timestamp).getTime() > MAX_VALUE_AGE_MS) {
+      return {
+        ...this.status,
+        state: 'halted',
+        reasons: [...this.status.reasons, `Latest value is older than ${MAX_VALUE_AGE_MS / 3600000}h`],
+      };
+    }
+    return this.status;
+  }
+
+  /**
+   * Throws unless the index is live or degraded, for consumers that act on the value
+   */
+  assertUsable(): PublicationStatus {
+    const status = this.getStatus();
+    if (status.state === 'frozen' || status.state === 'halted') {
+      throw new IndexUnavailableError(status);
+    }
+    return status;
+  }
+
+  async getManualFreeze(): Promise<ManualFreeze | null> {
+    if (!await FileManager.exists(PUBLICATION_FREEZE_FILE)) return null;
+    return await FileManager.readJson<ManualFreeze>(PUBLICATION_FREEZE_FILE);
+  }
+
+  /**
+   * Holds the current value until unfrozen; survives restarts
+   */
+  async freeze(actor: string, reason: string): Promise<PublicationStatus> {
+    const freeze: ManualFreeze = { by: actor, at: new Date().toISOString(), reason };
+    await FileManager.writeJson(PUBLICATION_FREEZE_FILE, freeze);
+    this.status = { ...this.status, manual_freeze: freeze };
+    // A halted index has no published value to hold and stays halted
+    const state = this.status.state === 'halted' ? 'halted' : 'frozen';
+    this.transition(state, [`Frozen by ${actor}: ${reason}`], this.status.value_timestamp);
+    return this.getStatus();
+  }
+
+  /**
+   * Lifts a manual freeze; the state is re-assessed on the next publication
+   */
+  async unfreeze(actor: string): Promise<void> {
+    const freeze = await this.getManualFreeze();
+    if (!freeze) return;
+    await FileManager.writeJson(PUBLICATION_FREEZE_FILE, null);
+    this.status = { ...this.status, manual_freeze: null };
+    console.log(`AVGX unfrozen by ${actor} (frozen by ${freeze.by} since ${freeze.at})`);
+  }
+}
+
+export const publicationStateService = new PublicationStateService();
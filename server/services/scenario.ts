@@ -0,0 +1,115 @@
+import { z } from 'zod';
+import { avgxCalculatorService } from './avgx-calculator';
+import { buildCalculationRecord, type CalculationIntermediates } from './calculation-record';
+import { getMethodology } from './index-methodology';
+
+// Percent moves; -50 halves a price, +10 adds 10%
+const percentShock = z.number().gt(-100).lte(1000);
+
+export const scenarioRequestSchema = z.object({
+  fiat_rates: z.record(z.string().regex(/^[A-Z]{3}$/), percentShock).default({}),   // Units per USD, by currency code
+  crypto_prices: z.record(z.string().min(1), percentShock).default({}),             // USD price, by CoinGecko id
+  usd_strength: percentShock.default(0),           // Moves every non-USD rate, e.g. 10 = USD buys 10% more of each
+  volatility_multiplier: z.number().gt(0).lte(100).default(1), // Scales the annualized volatility behind σ_t
+  horizon_seconds: z.number().int().min(0).max(365 * 24 * 60 * 60).default(0), // Evaluated this long after the latest tick
+}).strict();
+
+export type ScenarioRequest = z.infer<typeof scenarioRequestSchema>;
+
+export interface ScenarioValues {
+  wf_raw: number;
+  wf_smoothed: number;
+  wc_raw: number;
+  wc_smoothed: number;
+  volatility_index: number;
+  wc_adjusted: number;
+  avgx_unclamped: number;
+  avgx: number;
+}
+
+export interface ScenarioResult {
+  calculation_hash: string; // Published calculation the shocks are applied to
+  timestamp: string;        // When the scenario is evaluated
+  shocks: ScenarioRequest;
+  current: ScenarioValues;  // No shocks, same timestamp
+  shocked: ScenarioValues;
+  change: Record<keyof ScenarioValues, number | null>; // Percent, null where the current value is zero
+}
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+function values(intermediates: CalculationIntermediates): ScenarioValues {
+  const { wf_raw, wf_smoothed, wc_raw, wc_smoothed, volatility_index, wc_adjusted, avgx_unclamped, avgx_final } = intermediates;
+  return { wf_raw, wf_smoothed, wc_raw, wc_smoothed, volatility_index, wc_adjusted, avgx_unclamped, avgx: avgx_final };
+}
+
+class ScenarioService {
+  /**
+   * Replays the latest published calculation with shocked inputs. Both runs go
+   * through buildCalculationRecord with the published EWMA state, divisors and
+   * clamp reference; nothing is stored.
+   *
+   * σ_t is min(1, σ_annualized / V_target), so scaling volatility by k is
+   * evaluated as the same calculation with V_target / k.
+   */
+  async run(request: ScenarioRequest): Promise<ScenarioResult> {
+    const record = await avgxCalculatorService.getLatestRecord();
+
+    if ('USD' in request.fiat_rates) {
+      throw new ScenarioError('USD is the quote currency, shock it with usd_strength');
+    }
+    const unknown = [
+      ...Object.keys(request.fiat_rates).filter(code => !record.inputs.fiat.some(f => f.code === code)),
+      ...Object.keys(request.crypto_prices).filter(id => !record.inputs.crypto.some(c => c.id === id)),
+    ];
+    if (unknown.length > 0) {
+      throw new ScenarioError(`Not in the published baskets: ${unknown.join(', ')}`);
+    }
+
+    const timestamp = new Date(new Date(record.timestamp).getTime() + request.horizon_seconds * 1000).toISOString();
+    const methodology = getMethodology(record.methodology.id);
+    const move = (percent: number | undefined) => 1 + (percent ?? 0) / 100;
+
+    const baseline = buildCalculationRecord(timestamp, record.inputs, record.config, methodology);
+    const shocked = buildCalculationRecord(
+      timestamp,
+      {
+        ...record.inputs,
+        fiat: record.inputs.fiat.map(f => ({
+          ...f,
+          rate: f.code === 'USD' ? f.rate : f.rate * move(request.usd_strength) * move(request.fiat_rates[f.code]),
+        })),
+        crypto: record.inputs.crypto.map(c => ({ ...c, price: c.price * move(request.crypto_prices[c.id]) })),
+      },
+      {
+        ...record.config,
+        values: { ...record.config.values, v_target: record.config.values.v_target / request.volatility_multiplier },
+      },
+      methodology
+    );
+
+    const current = values(baseline.intermediates);
+    const result = values(shocked.intermediates);
+    const change = Object.fromEntries(Object.keys(current).map(key => {
+      const from = current[key as keyof ScenarioValues];
+      const to = result[key as keyof ScenarioValues];
+      return [key, from === 0 ? null : ((to - from) / from) * 100];
+    })) as ScenarioResult['change'];
+
+    return {
+      calculation_hash: record.hash,
+      timestamp,
+      shocks: request,
+      current,
+      shocked: result,
+      change,
+    };
+  }
+}
+
+export const scenarioService = new ScenarioService();
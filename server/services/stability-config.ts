@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+
+export const STABILITY_CONFIG_FILE = 'stability_config.json';
+
+export const stabilityConfigSchema = z.object({
+  alpha_f: z.number().gt(0).lte(1),             // Smoothing factor for fiat
+  alpha_c: z.number().gt(0).lte(1),             // Smoothing factor for crypto
+  alpha_interval_seconds: z.number().int().min(1).max(365 * 24 * 60 * 60), // Elapsed time over which alpha_f/alpha_c apply in full
+  v_target: z.number().gt(0).lte(5),            // Target annualized volatility
+  clamp_percent: z.number().gt(0).lte(0.5),     // Daily movement clamp
+  volatility_window_seconds: z.number().int().min(60).max(7 * 24 * 60 * 60), // Rolling window for volatility calculation
+}).strict();
+
+export const stabilityConfigUpdateSchema = z.object({
+  config: stabilityConfigSchema.partial(), // Merged on top of the latest version
+  reason: z.string().trim().min(3).max(500),
+  effective_from: z.string().datetime().optional(), // Defaults to now
+}).strict();
+
+// Configuration parameters for the stability formula
+export type StabilityConfig = z.infer<typeof stabilityConfigSchema>;
+export type StabilityConfigUpdate = z.infer<typeof stabilityConfigUpdateSchema>;
+
+export interface StabilityConfigVersion {
+  version: number;
+  config: StabilityConfig;
+  effective_from: string;
+  created_at: string;
+  created_by: string;
+  reason: string;
+}
+
+export const DEFAULT_STABILITY_CONFIG: StabilityConfig = {
+  alpha_f: 0.2,
+  alpha_c: 0.1,
+  alpha_interval_seconds: 60, // One tick of the default publication schedule, as alpha applied before it was time-scaled
+  v_target: 0.10,
+  clamp_percent: 0.015,
+  volatility_window_seconds: 30 * 60
+};
+
+// Version 0 is the built-in default, in effect until the first stored version
+const DEFAULT_VERSION: StabilityConfigVersion = {
+  version: 0,
+  config: DEFAULT_STABILITY_CONFIG,
+  effective_from: new Date(0).toISOString(),
+  created_at: new Date(0).toISOString(),
+  created_by: 'system',
+  reason: 'Built-in default',
+};
+
+// Allowance for clock skew between the admin client and the server
+const PAST_EFFECTIVE_TOLERANCE_MS = 60 * 1000;
+
+export class StabilityConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StabilityConfigError';
+  }
+}
+
+class StabilityConfigService {
+  /**
+   * All stored versions, oldest first, preceded by the built-in default
+   */
+  async getHistory(): Promise<StabilityConfigVersion[]> {
+    const stored = await FileManager.readJson<StabilityConfigVersion[]>(STABILITY_CONFIG_FILE) || [];
+    return [DEFAULT_VERSION, ...stored.sort((a, b) => a.version - b.version)];
+  }
+
+  /**
+   * Version in effect at the given time: the latest effective_from not after it
+   */
+  async getActive(at: Date = new Date()): Promise<StabilityConfigVersion> {
+    const history = await this.getHistory();
+    return history
+      .filter(v => new Date(v.effective_from).getTime() <= at.getTime())
+      .reduce((active, v) => {
+        const activeFrom = new Date(active.effective_from).getTime();
+        const candidateFrom = new Date(v.effective_from).getTime();
+        return candidateFrom > activeFrom || (candidateFrom === activeFrom && v.version > active.version)
+          ? v
+          : active;
+      }, DEFAULT_VERSION);
+  }
+
+  /**
+   * Stores a new version on top of the latest one. Past effective dates are
+   * rejected so published values keep the config that produced them.
+   */
+  async update(update: StabilityConfigUpdate, actor: string): Promise<StabilityConfigVersion> {
+    const now = new Date();
+    const effectiveFrom = update.effective_from ? new Date(update.effective_from) : now;
+    if (effectiveFrom.getTime() < now.getTime() - PAST_EFFECTIVE_TOLERANCE_MS) {
+      throw new StabilityConfigError('effective_from must not be in the past');
+    }
+
+    let created: StabilityConfigVersion | undefined;
+    await FileManager.update<StabilityConfigVersion[]>(STABILITY_CONFIG_FILE, current => {
+      const stored = current || [];
+      const latest = stored.reduce((max, v) => v.version > max.version ? v : max, DEFAULT_VERSION);
+
+      created = {
+        version: latest.version + 1,
+        config: stabilityConfigSchema.parse({ ...latest.config, ...update.config }),
+        effective_from: effectiveFrom.toISOString(),
+        created_at: now.toISOString(),
+        created_by: actor,
+        reason: update.reason,
+      };
+      return [...stored, created];
+    });
+
+    console.log(`Stability config v${created!.version} by ${actor}, effective ${created!.effective_from}: ${update.reason}`);
+    return created!;
+  }
+}
+
+export const stabilityConfigService = new StabilityConfigService();
@@ -0,0 +1,255 @@
+import type { StabilityConfig } from './stability-config';
+
+// Pure math of the stability formula. The calculator feeds it stored state,
+// the backtester feeds it replayed state, so both follow the same code path.
+
+export interface SmoothedValues {
+  wf_smoothed: number;
+  wc_smoothed: number;
+  volatility_index: number;
+  wc_adjusted: number;
+}
+
+const YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+export interface SmoothedHistoryEntry {
+  timestamp: string;
+  wf_smoothed: number;
+  wc_smoothed: number;
+}
+
+/**
+ * Everything the formula reads from a history, in constant space: the latest
+ * entry for the EWMA and the sums the volatility estimate is built from, over
+ * the log returns between consecutive entries with elapsed time
+ */
+export interface VolatilityWindowSummary {
+  samples: number;                    // Entries summarized
+  from: string | null;                // Timestamp of the first entry
+  last: SmoothedHistoryEntry | null;  // Latest entry
+  returns: number;
+  sum_r: number;
+  sum_dt: number;
+  sum_r2: number;
+  sum_r_dt: number;
+  sum_dt2: number;
+}
+
+function elapsedSeconds(from: string, to: string): number {
+  return (new Date(to).getTime() - new Date(from).getTime()) / 1000;
+}
+
+/**
+ * Smoothing factor for an observation elapsedSeconds after the previous one.
+ * alpha applies in full after alpha_interval_seconds, so the decay per unit
+ * of time is the same however often the index is computed:
+ * alpha_eff = 1 - (1 - alpha)^(Δt / interval)
+ */
+export function timeScaledAlpha(alpha: number, elapsed: number, intervalSeconds: number): number {
+  if (elapsed <= 0) return 0;
+  return 1 - Math.pow(1 - alpha, elapsed / intervalSeconds);
+}
+
+/**
+ * EWMA smoothing of the raw baskets, decayed by the time since the last observation
+ */
+function smoothBaskets(
+  wfRaw: number,
+  wcRaw: number,
+  lastSmoothed: SmoothedHistoryEntry | null,
+  config: StabilityConfig,
+  timestamp: string
+): { wfSmoothed: number; wcSmoothed: number } {
+  const elapsed = lastSmoothed ? elapsedSeconds(lastSmoothed.timestamp, timestamp) : 0;
+  const alphaF = timeScaledAlpha(config.alpha_f, elapsed, config.alpha_interval_seconds);
+  const alphaC = timeScaledAlpha(config.alpha_c, elapsed, config.alpha_interval_seconds);
+
+  const wfSmoothed = lastSmoothed
+    ? alphaF * wfRaw + (1 - alphaF) * lastSmoothed.wf_smoothed
+    : wfRaw;
+
+  const wcSmoothed = lastSmoothed
+    ? alphaC * wcRaw + (1 - alphaC) * lastSmoothed.wc_smoothed
+    : wcRaw;
+
+  return { wfSmoothed, wcSmoothed };
+}
+
+function adjustedValues(wfSmoothed: number, wcSmoothed: number, volatilityIndex: number): SmoothedValues {
+  // Apply volatility adjustment to crypto component
+  const wcAdjusted = wcSmoothed * (1 - volatilityIndex);
+
+  return {
+    wf_smoothed: wfSmoothed,
+    wc_smoothed: wcSmoothed,
+    volatility_index: volatilityIndex,
+    wc_adjusted: wcAdjusted
+  };
+}
+
+/**
+ * Applies EWMA smoothing to the raw baskets and the volatility adjustment to
+ * WC, reading the full history. Calculation records from before the window
+ * was summarized replay through this.
+ */
+export function computeSmoothedValues(
+  wfRaw: number,
+  wcRaw: number,
+  history: SmoothedHistoryEntry[],
+  config: StabilityConfig,
+  timestamp: string
+): SmoothedValues {
+  const lastSmoothed = history.length > 0 ? history[history.length - 1] : null;
+  const { wfSmoothed, wcSmoothed } = smoothBaskets(wfRaw, wcRaw, lastSmoothed, config, timestamp);
+
+  // Calculate volatility index σ_t
+  const volatilityIndex = computeVolatilityIndex(wcSmoothed, timestamp, history, config);
+
+  return adjustedValues(wfSmoothed, wcSmoothed, volatilityIndex);
+}
+
+/**
+ * Same as computeSmoothedValues, from a summary of the history
+ */
+export function computeSmoothedValuesFromSummary(
+  wfRaw: number,
+  wcRaw: number,
+  summary: VolatilityWindowSummary,
+  config: StabilityConfig,
+  timestamp: string
+): SmoothedValues {
+  const { wfSmoothed, wcSmoothed } = smoothBaskets(wfRaw, wcRaw, summary.last, config, timestamp);
+  const volatilityIndex = summaryVolatilityIndex(wcSmoothed, timestamp, summary, config);
+  return adjustedValues(wfSmoothed, wcSmoothed, volatilityIndex);
+}
+
+/**
+ * Reduces a history to the sums computeSmoothedValuesFromSummary reads
+ */
+export function summarizeVolatilityWindow(history: SmoothedHistoryEntry[]): VolatilityWindowSummary {
+  const last = history.length > 0 ? history[history.length - 1] : null;
+  const summary: VolatilityWindowSummary = {
+    samples: history.length,
+    from: history.length > 0 ? history[0].timestamp : null,
+    last: last ? { timestamp: last.timestamp, wf_smoothed: last.wf_smoothed, wc_smoothed: last.wc_smoothed } : null,
+    returns: 0,
+    sum_r: 0,
+    sum_dt: 0,
+    sum_r2: 0,
+    sum_r_dt: 0,
+    sum_dt2: 0,
+  };
+
+  for (let i = 1; i < history.length; i++) {
+    addReturn(summary, history[i - 1], history[i].timestamp, history[i].wc_smoothed);
+  }
+  return summary;
+}
+
+function addReturn(summary: VolatilityWindowSummary, previous: SmoothedHistoryEntry, timestamp: string, wcSmoothed: number): void {
+  // Samples without elapsed time carry no information
+  const dt = elapsedSeconds(previous.timestamp, timestamp);
+  if (dt <= 0) return;
+
+  const r = Math.log(wcSmoothed / previous.wc_smoothed);
+  summary.returns++;
+  summary.sum_r += r;
+  summary.sum_dt += dt;
+  summary.sum_r2 += r * r;
+  summary.sum_r_dt += r * dt;
+  summary.sum_dt2 += dt * dt;
+}
+
+/**
+ * History the tick at timestamp reads: every entry within volatility_window_seconds
+ * before it, plus the last one before the window so the EWMA always has its
+ * previous value. History must be in time order.
+ */
+export function volatilityWindow<T extends { timestamp: string }>(history: T[], timestamp: string, config: StabilityConfig): T[] {
+  const start = new Date(timestamp).getTime() - config.volatility_window_seconds * 1000;
+  const firstInside = history.findIndex(h => new Date(h.timestamp).getTime() > start);
+  return firstInside === -1 ? history.slice(-1) : history.slice(Math.max(0, firstInside - 1));
+}
+
+/**
+ * Volatility index σ_t = min(1, σ_annualized / V_target) over the given
+ * history, which callers limit to the rolling window with volatilityWindow.
+ *
+ * Samples arrive at irregular intervals, so σ is estimated per unit of time:
+ * variance = Σ(r_i - μ·Δt_i)² / ΣΔt_i with drift μ = Σr_i / ΣΔt_i, then
+ * scaled to a year. With evenly spaced samples this is the sample variance
+ * divided by the spacing, and its expectation does not depend on the spacing.
+ */
+export function computeVolatilityIndex(
+  wcSmoothed: number,
+  timestamp: string,
+  history: SmoothedHistoryEntry[],
+  config: StabilityConfig
+): number {
+  if (history.length < 2) return 0;
+
+  // Get recent WC smoothed values for volatility calculation
+  const recent = history
+    .map(h => ({ timestamp: h.timestamp, value: h.wc_smoothed }))
+    .concat([{ timestamp, value: wcSmoothed }]);
+
+  // Time-stamped log returns; samples without elapsed time carry no information
+  const returns: Array<{ r: number; dt: number }> = [];
+  for (let i = 1; i < recent.length; i++) {
+    const dt = elapsedSeconds(recent[i - 1].timestamp, recent[i].timestamp);
+    if (dt <= 0) continue;
+    returns.push({ r: Math.log(recent[i].value / recent[i - 1].value), dt });
+  }
+
+  if (returns.length < 2) return 0;
+
+  const totalTime = returns.reduce((sum, { dt }) => sum + dt, 0);
+  const drift = returns.reduce((sum, { r }) => sum + r, 0) / totalTime;
+  const variancePerSecond = returns.reduce((sum, { r, dt }) => sum + Math.pow(r - drift * dt, 2), 0) / totalTime;
+
+  return volatilityIndexFromVariance(variancePerSecond, config);
+}
+
+/**
+ * computeVolatilityIndex over a summarized history, with
+ * Σ(r_i - μ·Δt_i)² expanded to Σr² - 2μ·ΣrΔt + μ²·ΣΔt²
+ */
+function summaryVolatilityIndex(
+  wcSmoothed: number,
+  timestamp: string,
+  summary: VolatilityWindowSummary,
+  config: StabilityConfig
+): number {
+  if (summary.samples < 2 || !summary.last) return 0;
+
+  const sums = { ...summary };
+  addReturn(sums, summary.last, timestamp, wcSmoothed);
+  if (sums.returns < 2) return 0;
+
+  const drift = sums.sum_r / sums.sum_dt;
+  const squares = sums.sum_r2 - 2 * drift * sums.sum_r_dt + drift * drift * sums.sum_dt2;
+  // Rounding can take a near-zero sum of squares slightly negative
+  const variancePerSecond = Math.max(0, squares) / sums.sum_dt;
+
+  return volatilityIndexFromVariance(variancePerSecond, config);
+}
+
+function volatilityIndexFromVariance(variancePerSecond: number, config: StabilityConfig): number {
+  // Annualize by the actual elapsed time, not the number of samples
+  const annualizedVol = Math.sqrt(variancePerSecond * YEAR_SECONDS);
+
+  return Math.min(1, annualizedVol / config.v_target);
+}
+
+/**
+ * Limits the move from the previous published value to ±clamp_percent
+ */
+export function applyClamp(avgxValue: number, lastAvgx: number | null, config: StabilityConfig): number {
+  if (lastAvgx === null) return avgxValue;
+
+  const maxChange = lastAvgx * config.clamp_percent;
+  const change = avgxValue - lastAvgx;
+  const clampedChange = Math.max(-maxChange, Math.min(maxChange, change));
+
+  return lastAvgx + clampedChange;
+}
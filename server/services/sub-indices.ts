@@ -0,0 +1,159 @@
+import { z } from 'zod';
+import { FileManager } from '../utils/file-manager';
+import { avgxCalculatorService, TIMEFRAME_MS, type HistoryEntry, type HistoryTimeframe } from './avgx-calculator';
+import type { CalculationRecord } from './calculation-record';
+import { getMethodology } from './index-methodology';
+import { BasketIndexSeries, IndexNotPublishedError, type BasketIndexDefinition, type BasketIndexValue } from './basket-index';
+
+export const SUB_INDICES_FILE = 'sub_indices.json';
+
+export const regionalIndexSchema = z.object({
+  id: z.string().regex(/^AVGX-[A-Z0-9-]+$/),
+  name: z.string().min(1),
+  currencies: z.array(z.string().regex(/^[A-Z]{3}$/)).min(1), // Subset of fiats.json, reweighted to sum to 1
+}).strict();
+
+export type RegionalIndexConfig = z.infer<typeof regionalIndexSchema>;
+
+// Used until sub_indices.json is created
+const DEFAULT_REGIONAL_INDICES: RegionalIndexConfig[] = [
+  {
+    id: 'AVGX-ASIA',
+    name: 'AVGX Asia fiat basket',
+    currencies: ['CNY', 'JPY', 'INR', 'KRW', 'SGD', 'HKD', 'IDR', 'MYR', 'THB', 'PHP', 'VND', 'PKR', 'BDT', 'LKR'],
+  },
+  {
+    id: 'AVGX-EUROPE',
+    name: 'AVGX Europe fiat basket',
+    currencies: ['EUR', 'GBP', 'CHF', 'SEK', 'NOK', 'DKK', 'PLN', 'HUF', 'CZK', 'RON', 'BGN', 'HRK', 'UAH', 'RUB', 'TRY'],
+  },
+  {
+    id: 'AVGX-AMERICAS',
+    name: 'AVGX Americas fiat basket',
+    currencies: ['USD', 'CAD', 'MXN', 'BRL', 'ARS', 'CLP', 'COP', 'PEN'],
+  },
+];
+
+/**
+ * Publishes the sub-indices from the prices of every flagship tick:
+ * AVGX-WF and AVGX-WC track the two legs of the flagship baskets, and the
+ * regional indices the fiat leg of a subset of fiats.json. Each one runs the
+ * full stability pipeline with its own EWMA state, clamp and history.
+ */
+class SubIndexService {
+  private series = new Map<string, BasketIndexSeries>();
+
+  /**
+   * Current definitions; the built-in legs follow the flagship baskets of the given record
+   */
+  async getDefinitions(record: CalculationRecord): Promise<BasketIndexDefinition[]> {
+    const fiat = record.inputs.fiat.map(({ code, weight }) => ({ code, weight }));
+    const crypto = record.inputs.crypto.map(({ id, weight }) => ({ id, weight }));
+
+    const regional = (await this.getRegionalConfig()).flatMap((region): BasketIndexDefinition[] => {
+      const members = fiat.filter(f => region.currencies.includes(f.code));
+      const total = members.reduce((sum, f) => sum + f.weight, 0);
+      if (total === 0) {
+        console.warn(`Sub-index ${region.id} has no currencies in the fiat basket, skipping`);
+        return [];
+      }
+      return [{
+        id: region.id,
+        name: region.name,
+        description: `Fiat leg over ${members.map(f => f.code).join(', ')}`,
+        output: 'wf',
+        fiat: members.map(f => ({ code: f.code, weight: f.weight / total })),
+        crypto,
+      }];
+    });
+
+    return [
+      { id: 'AVGX-WF', name: 'AVGX fiat leg', description: 'Smoothed fiat basket WF of the flagship index', output: 'wf', fiat, crypto },
+      { id: 'AVGX-WC', name: 'AVGX crypto leg', description: 'Smoothed, volatility-adjusted crypto basket WC of the flagship index', output: 'wc', fiat, crypto },
+      ...regional,
+    ];
+  }
+
+  /**
+   * Publishes every sub-index at the flagship record's timestamp and prices.
+   * A failing sub-index is logged and does not hold back the others.
+   */
+  async publishAll(record: CalculationRecord): Promise<void> {
+    for (const definition of await this.getDefinitions(record)) {
+      try {
+        await this.publish(definition, record);
+      } catch (error) {
+        console.error(`Failed to publish sub-index ${definition.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Latest values of the sub-indices that have been published
+   */
+  async list(): Promise<BasketIndexValue[]> {
+    const record = await avgxCalculatorService.getLatestRecord();
+    const values: BasketIndexValue[] = [];
+    for (const definition of await this.getDefinitions(record)) {
+      const value = await this.getSeries(definition.id).describe(definition);
+      if (value) values.push(value);
+    }
+    return values;
+  }
+
+  /**
+   * Latest value of one sub-index, or null if there is no such index.
+   * Throws IndexNotPublishedError for an index no tick has published yet.
+   */
+  async get(id: string): Promise<BasketIndexValue | null> {
+    const record = await avgxCalculatorService.getLatestRecord();
+    const definition = (await this.getDefinitions(record)).find(d => d.id === id.toUpperCase());
+    if (!definition) return null;
+
+    const value = await this.getSeries(definition.id).describe(definition);
+    if (!value) throw new IndexNotPublishedError(definition.id);
+    return value;
+  }
+
+  async getHistory(id: string, timeframe: HistoryTimeframe): Promise<HistoryEntry[] | null> {
+    const record = await avgxCalculatorService.getLatestRecord();
+    const definition = (await this.getDefinitions(record)).find(d => d.id === id.toUpperCase());
+    return definition
+      ? this.getSeries(definition.id).getHistory(new Date(Date.now() - TIMEFRAME_MS[timeframe]))
+      : null;
+  }
+
+  private async publish(definition: BasketIndexDefinition, record: CalculationRecord): Promise<CalculationRecord> {
+    return this.getSeries(definition.id).publish(definition, record, getMethodology(record.methodology.id));
+  }
+
+  /**
+   * Drops the cached series, e.g. after their files were replaced by a restore
+   */
+  reset(): void {
+    this.series.clear();
+  }
+
+  private getSeries(id: string): BasketIndexSeries {
+    let series = this.series.get(id);
+    if (!series) {
+      series = new BasketIndexSeries(`index_${id.toLowerCase()}`);
+      this.series.set(id, series);
+    }
+    return series;
+  }
+
+  private async getRegionalConfig(): Promise<RegionalIndexConfig[]> {
+    if (!await FileManager.exists(SUB_INDICES_FILE)) return DEFAULT_REGIONAL_INDICES;
+
+    const stored = await FileManager.readJson<unknown>(SUB_INDICES_FILE);
+    const parsed = z.array(regionalIndexSchema).safeParse(stored);
+    if (!parsed.success) {
+      console.error(`Invalid ${SUB_INDICES_FILE}, publishing no regional indices:`, parsed.error.message);
+      return [];
+    }
+    return parsed.data.filter(region => region.id !== 'AVGX-WF' && region.id !== 'AVGX-WC');
+  }
+}
+
+export const subIndexService = new SubIndexService();
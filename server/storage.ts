@@ -1,6 +1,24 @@
 import { type User, type InsertUser, type Contact, type InsertContact, type AvgxIndex, type FiatRate, type CryptoPrice, type AvgxTransaction, type InsertTransaction, type AvgxReserves, type InsertReserves } from "@shared/schema";
 import { randomUUID } from "crypto";
 
+export type StorageBackend = 'memory' | 'database';
+
+export interface StorageHealth {
+  backend: StorageBackend;
+  time: Date;
+}
+
+// Full contents of a storage backend, used for backup and restore
+export interface StorageDump {
+  users: User[];
+  contacts: Contact[];
+  avgxIndex: AvgxIndex[];
+  fiatRates: FiatRate[];
+  cryptoPrices: CryptoPrice[];
+  transactions: AvgxTransaction[];
+  reserves: AvgxReserves[];
+}
+
 // Extended storage interface for AVGX data
 export interface IStorage {
   // User operations
@@ -14,16 +32,22 @@ export interface IStorage {
   
   // AVGX index operations
   storeAvgxIndex(index: Omit<AvgxIndex, 'id'>): Promise<AvgxIndex>;
+  getAvgxIndex(id: string): Promise<AvgxIndex | undefined>;
   getLatestAvgxIndex(): Promise<AvgxIndex | undefined>;
   getAvgxIndexHistory(limit?: number): Promise<AvgxIndex[]>;
+  getAvgxIndexByCalculationHash(hash: string): Promise<AvgxIndex | undefined>;
+  getAvgxIndexAt(at: Date): Promise<AvgxIndex | undefined>; // Latest value published at or before the time
   
   // Fiat rate operations
   storeFiatRates(rates: Omit<FiatRate, 'id'>[]): Promise<FiatRate[]>;
   getLatestFiatRates(): Promise<FiatRate[]>;
+  getFiatRatesBySnapshot(snapshotId: string): Promise<FiatRate[]>;
   
   // Crypto price operations
   storeCryptoPrices(prices: Omit<CryptoPrice, 'id'>[]): Promise<CryptoPrice[]>;
   getLatestCryptoPrices(): Promise<CryptoPrice[]>;
+  getCryptoPricesBySnapshot(snapshotId: string): Promise<CryptoPrice[]>;
+  getCryptoPricesSince(since: Date): Promise<CryptoPrice[]>;
   
   // AVGX Coin transaction operations
   createTransaction(transaction: InsertTransaction): Promise<AvgxTransaction>;
@@ -33,6 +57,13 @@ export interface IStorage {
   // AVGX reserves operations
   updateReserves(reserves: InsertReserves): Promise<AvgxReserves>;
   getLatestReserves(): Promise<AvgxReserves | undefined>;
+
+  // Backup operations
+  exportAll(): Promise<StorageDump>;
+  importAll(dump: StorageDump): Promise<void>; // Replaces all existing data
+
+  // Health check
+  healthCheck(): Promise<StorageHealth>;
 }
 
 export class MemStorage implements IStorage {
@@ -97,6 +128,10 @@ export class MemStorage implements IStorage {
     return index;
   }
 
+  async getAvgxIndex(id: string): Promise<AvgxIndex | undefined> {
+    return this.avgxIndices.get(id);
+  }
+
   async getLatestAvgxIndex(): Promise<AvgxIndex | undefined> {
     const indices = Array.from(this.avgxIndices.values());
     if (indices.length === 0) return undefined;
@@ -112,6 +147,16 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async getAvgxIndexByCalculationHash(hash: string): Promise<AvgxIndex | undefined> {
+    return Array.from(this.avgxIndices.values()).find(index => index.calculationHash === hash);
+  }
+
+  async getAvgxIndexAt(at: Date): Promise<AvgxIndex | undefined> {
+    return Array.from(this.avgxIndices.values())
+      .filter(index => new Date(index.timestamp).getTime() <= at.getTime())
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+  }
+
   // Fiat rate operations
   async storeFiatRates(rates: Omit<FiatRate, 'id'>[]): Promise<FiatRate[]> {
     const storedRates: FiatRate[] = [];
@@ -142,6 +187,11 @@ export class MemStorage implements IStorage {
     return Array.from(latestRates.values());
   }
 
+  async getFiatRatesBySnapshot(snapshotId: string): Promise<FiatRate[]> {
+    return Array.from(this.fiatRates.values())
+      .filter(rate => rate.snapshotId === snapshotId);
+  }
+
   // Crypto price operations
   async storeCryptoPrices(prices: Omit<CryptoPrice, 'id'>[]): Promise<CryptoPrice[]> {
     const storedPrices: CryptoPrice[] = [];
@@ -172,12 +222,26 @@ export class MemStorage implements IStorage {
     return Array.from(latestPrices.values());
   }
 
+  async getCryptoPricesBySnapshot(snapshotId: string): Promise<CryptoPrice[]> {
+    return Array.from(this.cryptoPrices.values())
+      .filter(price => price.snapshotId === snapshotId);
+  }
+
+  async getCryptoPricesSince(since: Date): Promise<CryptoPrice[]> {
+    return Array.from(this.cryptoPrices.values())
+      .filter(price => new Date(price.timestamp) >= since)
+      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+  }
+
   // AVGX Coin transaction operations
   async createTransaction(insertTransaction: InsertTransaction): Promise<AvgxTransaction> {
     const id = randomUUID();
     const transaction: AvgxTransaction = { 
       ...insertTransaction, 
       id, 
+      status: insertTransaction.status ?? 'pending',
+      blockNumber: insertTransaction.blockNumber ?? null,
+      gasUsed: insertTransaction.gasUsed ?? null,
       timestamp: new Date() 
     };
     this.transactions.set(id, transaction);
@@ -202,6 +266,11 @@ export class MemStorage implements IStorage {
     const reserves: AvgxReserves = { 
       ...insertReserves, 
       id, 
+      totalSupply: insertReserves.totalSupply ?? '0',
+      backingValue: insertReserves.backingValue ?? '0',
+      collateralRatio: insertReserves.collateralRatio ?? '1.0000',
+      fiatReserves: insertReserves.fiatReserves ?? {},
+      cryptoReserves: insertReserves.cryptoReserves ?? {},
       timestamp: new Date() 
     };
     this.reserves.set(id, reserves);
@@ -213,6 +282,66 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
     return reservesList.length > 0 ? reservesList[0] : undefined;
   }
+
+  // Backup operations
+  async exportAll(): Promise<StorageDump> {
+    return {
+      users: Array.from(this.users.values()),
+      contacts: Array.from(this.contacts.values()),
+      avgxIndex: Array.from(this.avgxIndices.values()),
+      fiatRates: Array.from(this.fiatRates.values()),
+      cryptoPrices: Array.from(this.cryptoPrices.values()),
+      transactions: Array.from(this.transactions.values()),
+      reserves: Array.from(this.reserves.values()),
+    };
+  }
+
+  async importAll(dump: StorageDump): Promise<void> {
+    this.users = new Map(dump.users.map(row => [row.id, row]));
+    this.contacts = new Map(dump.contacts.map(row => [row.id, row]));
+    this.avgxIndices = new Map(dump.avgxIndex.map(row => [row.id, row]));
+    this.fiatRates = new Map(dump.fiatRates.map(row => [row.id, row]));
+    this.cryptoPrices = new Map(dump.cryptoPrices.map(row => [row.id, row]));
+    this.transactions = new Map(dump.transactions.map(row => [row.id, row]));
+    this.reserves = new Map(dump.reserves.map(row => [row.id, row]));
+  }
+
+  // Health check
+  async healthCheck(): Promise<StorageHealth> {
+    return {
+      backend: 'memory',
+      time: new Date(),
+    };
+  }
+}
+
+/**
+ * Resolves the storage backend from STORAGE_BACKEND, defaulting to the
+ * database whenever DATABASE_URL is configured
+ */
+export function resolveStorageBackend(): StorageBackend {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? 'database' : 'memory');
+  if (backend !== 'memory' && backend !== 'database') {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}". Use: memory, database`);
+  }
+  return backend;
 }
 
-export const storage = new MemStorage();
+// Active storage backend; replaced by initializeStorage() at startup
+export let storage: IStorage = new MemStorage();
+
+/**
+ * Selects the storage backend. The database module is loaded lazily because
+ * it refuses to load without DATABASE_URL.
+ */
+export async function initializeStorage(backend: StorageBackend = resolveStorageBackend()): Promise<IStorage> {
+  if (backend === 'database') {
+    const { DbStorage } = await import('./db-storage');
+    storage = new DbStorage();
+  } else {
+    storage = new MemStorage();
+  }
+
+  console.log(`Using ${backend} storage backend`);
+  return storage;
+}
@@ -0,0 +1,58 @@
+import type { Request, Response, NextFunction } from 'express';
+import { createHash, timingSafeEqual } from 'crypto';
+
+interface AdminKey {
+  name: string;
+  digest: Buffer;
+}
+
+function digest(value: string): Buffer {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Parses ADMIN_API_KEYS, a comma-separated list of name:key pairs
+ * (e.g. "alice:s3cret,ops-bot:t0ken")
+ */
+function loadAdminKeys(): AdminKey[] {
+  return (process.env.ADMIN_API_KEYS || '')
+    .split(',')
+    .map(pair => pair.trim())
+    .filter(Boolean)
+    .map(pair => {
+      const separator = pair.indexOf(':');
+      return separator > 0
+        ? { name: pair.slice(0, separator), digest: digest(pair.slice(separator + 1)) }
+        : null;
+    })
+    .filter((key): key is AdminKey => key !== null);
+}
+
+/**
+ * Rejects requests without a valid admin bearer token. The key's name is
+ * exposed as res.locals.adminUser for audit records.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const keys = loadAdminKeys();
+  if (keys.length === 0) {
+    return res.status(503).json({
+      success: false,
+      message: "Admin API is disabled. Set ADMIN_API_KEYS to enable it."
+    });
+  }
+
+  const header = req.headers.authorization || '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const presented = digest(token);
+  const match = token ? keys.find(key => timingSafeEqual(key.digest, presented)) : undefined;
+
+  if (!match) {
+    return res.status(401).json({
+      success: false,
+      message: "Invalid or missing admin credentials"
+    });
+  }
+
+  res.locals.adminUser = match.name;
+  next();
+}
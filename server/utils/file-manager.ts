@@ -2,8 +2,66 @@ import { promises as fs } from 'fs';
 import { join } from 'path';
 
 const DATA_DIR = './data';
+const JOURNAL_DIR = join(DATA_DIR, '.journal');
+
+export interface FileWrite {
+  filename: string;
+  data: any;
+  // Schema version to stamp the file with; defaults to the registered latest for the file
+  schemaVersion?: number;
+}
+
+// How a migrated data file is stored, so the version travels with the file
+interface StampedFile {
+  schema_version: number;
+  data: any;
+}
+
+function isStampedFile(value: any): value is StampedFile {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    && typeof value.schema_version === 'number' && 'data' in value
+    && Object.keys(value).length === 2;
+}
+
+/**
+ * Splits a file's parsed contents into its schema version stamp, undefined
+ * for an unstamped file, and the data
+ */
+export function unstampFile(contents: any): { schemaVersion?: number; data: any } {
+  return isStampedFile(contents)
+    ? { schemaVersion: contents.schema_version, data: contents.data }
+    : { data: contents };
+}
+
+// Every write and deletion in an entry is replayed together, so a batch lands all-or-nothing
+interface JournalEntry {
+  writes: FileWrite[];
+  deletes?: string[];
+}
+
+// Single-write entries journaled before batches existed
+type LegacyJournalEntry = FileWrite;
+
+function normalizeJournalEntry(entry: JournalEntry | LegacyJournalEntry): JournalEntry {
+  if ('writes' in entry && Array.isArray(entry.writes)) return entry;
+  if ('filename' in entry && typeof entry.filename === 'string') {
+    return { writes: [{ filename: entry.filename, data: entry.data }] };
+  }
+  throw new Error('Unrecognized journal entry');
+}
 
 export class FileManager {
+  private static locks = new Map<string, Promise<unknown>>();
+  private static sequence = 0;
+  private static schemaVersions = new Map<string, number>();
+
+  /**
+   * Sets the schema version every later write of each file is stamped with
+   */
+  static registerSchemaVersions(versions: Record<string, number>): void {
+    this.schemaVersions = new Map(Object.entries(versions));
+  }
+
   static async ensureDataDir() {
     try {
       await fs.access(DATA_DIR);
@@ -12,7 +70,36 @@ export class FileManager {
     }
   }
 
+  static async exists(filename: string): Promise<boolean> {
+    try {
+      await fs.access(join(DATA_DIR, filename));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Lists the JSON data files, skipping the journal and temp files
+   */
+  static async listJsonFiles(): Promise<string[]> {
+    await this.ensureDataDir();
+    const entries = await fs.readdir(DATA_DIR, { withFileTypes: true });
+    return entries
+      .filter(entry => entry.isFile() && entry.name.endsWith('.json'))
+      .map(entry => entry.name)
+      .sort();
+  }
+
   static async readJson<T>(filename: string): Promise<T | null> {
+    const contents = await this.readRawJson(filename);
+    return contents === null ? null : unstampFile(contents).data;
+  }
+
+  /**
+   * Reads a file's contents as stored, schema version stamp included
+   */
+  static async readRawJson(filename: string): Promise<any | null> {
     try {
       const filePath = join(DATA_DIR, filename);
       const data = await fs.readFile(filePath, 'utf-8');
@@ -23,34 +110,229 @@ export class FileManager {
     }
   }
 
+  /**
+   * Schema version the file is stamped with, undefined if it is missing or
+   * predates stamping
+   */
+  static async readSchemaVersion(filename: string): Promise<number | undefined> {
+    const contents = await this.readRawJsonStrict(filename);
+    return contents === null ? undefined : unstampFile(contents).schemaVersion;
+  }
+
+  /**
+   * Like readJson, but only a missing file gives null; unreadable or
+   * malformed contents throw. For reads whose result is written back.
+   */
+  static async readJsonStrict<T>(filename: string): Promise<T | null> {
+    const contents = await this.readRawJsonStrict(filename);
+    return contents === null ? null : unstampFile(contents).data;
+  }
+
+  /**
+   * Like readRawJson, but only a missing file gives null; unreadable or
+   * malformed contents throw
+   */
+  private static async readRawJsonStrict(filename: string): Promise<any | null> {
+    let data: string;
+    try {
+      data = await fs.readFile(join(DATA_DIR, filename), 'utf-8');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      throw new Error(`${filename} could not be parsed, refusing to overwrite it: ${error}`);
+    }
+  }
+
+  /**
+   * Reads a non-JSON data file such as a CSV dataset, null if it is missing
+   */
+  static async readText(filename: string): Promise<string | null> {
+    try {
+      return await fs.readFile(join(DATA_DIR, filename), 'utf-8');
+    } catch (error) {
+      console.warn(`Failed to read ${filename}:`, error);
+      return null;
+    }
+  }
+
   static async writeJson(filename: string, data: any): Promise<void> {
+    return this.withLock(filename, () => this.commitWrites([{ filename, data }]));
+  }
+
+  /**
+   * Writes several files, and deletes others, as one journaled batch: after a
+   * crash, recovery either replays all of it or none of it was journaled
+   */
+  static async writeMany(writes: FileWrite[], deletes: string[] = []): Promise<void> {
+    const filenames = Array.from(new Set([...writes.map(w => w.filename), ...deletes])).sort();
+
+    // Take the locks in a fixed order so two batches cannot deadlock
+    const lockAll = (index: number): Promise<void> => index === filenames.length
+      ? this.commitWrites(writes, deletes)
+      : this.withLock(filenames[index], () => lockAll(index + 1));
+
+    return lockAll(0);
+  }
+
+  /**
+   * Read-modify-write under the file's lock so concurrent updates cannot
+   * interleave. Returning undefined from the updater skips the write. The
+   * updater sees null only for a missing file; a file that does not parse
+   * throws rather than being overwritten.
+   */
+  static async update<T>(
+    filename: string,
+    updater: (current: T | null) => T | undefined | Promise<T | undefined>,
+    options: { schemaVersion?: number } = {}
+  ): Promise<T | undefined> {
+    return this.withLock(filename, async () => {
+      const contents = await this.readRawJsonStrict(filename);
+      const next = await updater(contents === null ? null : unstampFile(contents).data);
+      if (next !== undefined) {
+        await this.commitWrites([{ filename, data: next, schemaVersion: options.schemaVersion }]);
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Runs fn once every earlier operation queued on the same file has settled
+   */
+  static async withLock<T>(filename: string, fn: () => Promise<T>): Promise<T> {
+    const previous = this.locks.get(filename) || Promise.resolve();
+    const run = previous.catch(() => undefined).then(fn);
+    const tail = run.catch(() => undefined);
+    this.locks.set(filename, tail);
+
+    try {
+      return await run;
+    } finally {
+      // Drop the entry once nothing else has queued behind us
+      if (this.locks.get(filename) === tail) {
+        this.locks.delete(filename);
+      }
+    }
+  }
+
+  /**
+   * Replays writes and deletions left in the journal by a crash and removes
+   * stray temp files.
+   * Must run at startup before anything reads the data directory.
+   */
+  static async recoverJournal(): Promise<number> {
+    await this.ensureDataDir();
+
+    let journalFiles: string[] = [];
+    try {
+      journalFiles = (await fs.readdir(JOURNAL_DIR)).filter(f => f.endsWith('.json')).sort();
+    } catch {
+      // No journal directory means nothing was ever left pending
+    }
+
+    let recovered = 0;
+    for (const journalFile of journalFiles) {
+      const journalPath = join(JOURNAL_DIR, journalFile);
+      try {
+        const entry = normalizeJournalEntry(JSON.parse(await fs.readFile(journalPath, 'utf-8')));
+        for (const write of entry.writes) {
+          await this.writeAtomic(join(DATA_DIR, write.filename), JSON.stringify(write.data, null, 2));
+          recovered++;
+          console.warn(`Recovered pending write to ${write.filename} from journal`);
+        }
+        for (const filename of entry.deletes ?? []) {
+          await fs.rm(join(DATA_DIR, filename), { force: true });
+          recovered++;
+          console.warn(`Recovered pending deletion of ${filename} from journal`);
+        }
+      } catch (error) {
+        // A torn journal entry means the target file was never touched
+        console.warn(`Discarding unreadable journal entry ${journalFile}:`, error);
+      }
+      await fs.rm(journalPath, { force: true });
+    }
+
+    for (const dir of [DATA_DIR, JOURNAL_DIR]) {
+      try {
+        const strays = (await fs.readdir(dir)).filter(f => f.endsWith('.tmp'));
+        await Promise.all(strays.map(f => fs.rm(join(dir, f), { force: true })));
+      } catch {
+        // Directory does not exist yet
+      }
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Journals the writes, swaps each file in atomically, removes the deleted
+   * files, then clears the journal entry
+   */
+  private static async commitWrites(writes: FileWrite[], deletes: string[] = []): Promise<void> {
+    const written = writes.map(w => w.filename).join(', ');
+    const names = deletes.length > 0 ? `${written}; deleted ${deletes.join(', ')}` : written;
     try {
       await this.ensureDataDir();
-      const filePath = join(DATA_DIR, filename);
-      
-      // Simple write for now - atomic writes can cause issues in Replit environment
-      await fs.writeFile(filePath, JSON.stringify(data, null, 2));
-      
-      console.log(`Successfully wrote ${filename}`);
+      await fs.mkdir(JOURNAL_DIR, { recursive: true });
+
+      // Stamp before journaling so a replay writes exactly what was intended
+      const stamped = writes.map(write => this.stamp(write));
+      const journalPath = join(JOURNAL_DIR, `${Date.now()}-${process.pid}-${String(this.nextSequence()).padStart(16, '0')}.json`);
+      const entry: JournalEntry = deletes.length > 0 ? { writes: stamped, deletes } : { writes: stamped };
+
+      await this.writeAtomic(journalPath, JSON.stringify(entry));
+      for (const { filename, data } of stamped) {
+        await this.writeAtomic(join(DATA_DIR, filename), JSON.stringify(data, null, 2));
+      }
+      for (const filename of deletes) {
+        await fs.rm(join(DATA_DIR, filename), { force: true });
+      }
+      await fs.rm(journalPath, { force: true });
+
+      console.log(`Successfully wrote ${names}`);
     } catch (error) {
-      console.error(`Failed to write ${filename}:`, error);
+      console.error(`Failed to write ${names}:`, error);
       throw error;
     }
   }
 
-  static async appendToHistory(entry: any): Promise<void> {
+  /**
+   * Wraps the data in a schema version stamp when the file is versioned
+   */
+  private static stamp({ filename, data, schemaVersion }: FileWrite): FileWrite {
+    const version = schemaVersion ?? this.schemaVersions.get(filename);
+    if (version === undefined) return { filename, data };
+    const contents: StampedFile = { schema_version: version, data };
+    return { filename, data: contents };
+  }
+
+  /**
+   * Writes to a temp file, fsyncs it and renames it over the target so readers
+   * only ever see the old or the new contents
+   */
+  private static async writeAtomic(filePath: string, contents: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.${this.nextSequence()}.tmp`;
+    const handle = await fs.open(tempPath, 'w');
     try {
-      const history = (await this.readJson<any[]>('history.json')) || [];
-      history.push(entry);
-      
-      // Keep only last 720 entries (30 days of hourly data)
-      if (history.length > 720) {
-        history.splice(0, history.length - 720);
-      }
-      
-      await this.writeJson('history.json', history);
+      await handle.writeFile(contents);
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+
+    try {
+      await fs.rename(tempPath, filePath);
     } catch (error) {
-      console.error('Failed to append to history:', error);
+      await fs.rm(tempPath, { force: true });
+      throw error;
     }
   }
-}
\ No newline at end of file
+
+  private static nextSequence(): number {
+    this.sequence = (this.sequence + 1) % Number.MAX_SAFE_INTEGER;
+    return this.sequence;
+  }
+}
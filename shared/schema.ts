@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, decimal, jsonb, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -16,10 +16,17 @@ export const avgxIndex = pgTable("avgx_index", {
   wfValue: decimal("wf_value", { precision: 18, scale: 8 }).notNull(),
   wcValue: decimal("wc_value", { precision: 18, scale: 8 }).notNull(),
   change24h: decimal("change_24h", { precision: 5, scale: 2 }),
-});
+  fiatSnapshotId: varchar("fiat_snapshot_id"), // fiat_rates.snapshot_id the value was computed from
+  cryptoSnapshotId: varchar("crypto_snapshot_id"), // crypto_prices.snapshot_id the value was computed from
+  calculationHash: varchar("calculation_hash"), // Hash of the calculation record behind the value
+  calculationRecord: jsonb("calculation_record"), // The full calculation record, kept as long as the row
+}, (table) => [
+  index("avgx_index_calculation_hash_idx").on(table.calculationHash),
+]);
 
 export const fiatRates = pgTable("fiat_rates", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: varchar("snapshot_id"), // groups the rows written by one refresh
   currency: varchar("currency", { length: 3 }).notNull(),
   rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
   weight: decimal("weight", { precision: 5, scale: 4 }).notNull(),
@@ -28,6 +35,7 @@ export const fiatRates = pgTable("fiat_rates", {
 
 export const cryptoPrices = pgTable("crypto_prices", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  snapshotId: varchar("snapshot_id"), // groups the rows written by one refresh
   symbol: varchar("symbol", { length: 10 }).notNull(),
   price: decimal("price", { precision: 18, scale: 8 }).notNull(),
   marketCap: decimal("market_cap", { precision: 20, scale: 2 }).notNull(),
@@ -98,6 +106,10 @@ export const insertAvgxIndexSchema = createInsertSchema(avgxIndex).pick({
   wfValue: true,
   wcValue: true,
   change24h: true,
+  fiatSnapshotId: true,
+  cryptoSnapshotId: true,
+  calculationHash: true,
+  calculationRecord: true,
 });
 
 export const insertTransactionSchema = createInsertSchema(avgxCoinTransactions).pick({